@@ -0,0 +1,162 @@
+import { ChannelType, Message, SendableChannels, TextBasedChannel, ThreadAutoArchiveDuration } from 'discord.js';
+import { Speaker, SpeakerTranscript } from '../voice/pipeline';
+import { logger } from '../utils/logger';
+
+const EDIT_INTERVAL_MS = 1000; // stay well inside Discord's message edit rate limit
+const FINALIZE_AFTER_MS = 1500; // quiet time after a final result that closes the utterance
+const MAX_CAPTION_LENGTH = 1800;
+
+interface LiveCaption {
+  speaker: Speaker;
+  finalText: string;
+  interimText: string;
+  message: Promise<Message | null> | null;
+  lastEditAt: number;
+  editTimer: NodeJS.Timeout | null;
+  finalizeTimer: NodeJS.Timeout | null;
+}
+
+/**
+ * Mirrors speech into a text channel: one message per utterance, edited with
+ * interim results and finalized when the speaker pauses.
+ */
+export class CaptionRelay {
+  private channel: SendableChannels;
+  private captions: Map<string, LiveCaption> = new Map();
+
+  private constructor(channel: SendableChannels) {
+    this.channel = channel;
+  }
+
+  /**
+   * Caption into `channel` directly, or into a new thread under it when `createThread` is set
+   */
+  static async open(channel: TextBasedChannel, createThread: boolean): Promise<CaptionRelay> {
+    if (createThread && (channel.type === ChannelType.GuildText || channel.type === ChannelType.GuildAnnouncement)) {
+      const thread = await channel.threads.create({
+        name: `Live captions ${new Date().toISOString().slice(0, 10)}`,
+        autoArchiveDuration: ThreadAutoArchiveDuration.OneDay,
+        reason: 'Voice session captions',
+      });
+      logger.info(`Opened caption thread ${thread.id}`);
+      return new CaptionRelay(thread);
+    }
+
+    if (!channel.isSendable()) {
+      throw new Error('Cannot post captions in that channel');
+    }
+    return new CaptionRelay(channel);
+  }
+
+  getChannelId(): string {
+    return this.channel.id;
+  }
+
+  handleTranscript(event: SpeakerTranscript): void {
+    const { speaker, transcript, isFinal } = event;
+    if (!transcript.trim()) return;
+
+    const caption = this.captions.get(speaker.userId) ?? this.startCaption(speaker);
+
+    if (caption.finalizeTimer) {
+      clearTimeout(caption.finalizeTimer);
+      caption.finalizeTimer = null;
+    }
+
+    if (isFinal) {
+      caption.finalText = `${caption.finalText} ${transcript}`.trim();
+      caption.interimText = '';
+      caption.finalizeTimer = setTimeout(() => this.finalize(speaker.userId), FINALIZE_AFTER_MS);
+    } else {
+      caption.interimText = transcript;
+    }
+
+    if (caption.finalText.length > MAX_CAPTION_LENGTH) {
+      this.finalize(speaker.userId);
+      return;
+    }
+
+    this.scheduleEdit(caption);
+  }
+
+  /**
+   * Post what the bot said alongside the captions
+   */
+  async postBotResponse(text: string): Promise<void> {
+    try {
+      await this.channel.send(`**Redbot:** ${text.slice(0, MAX_CAPTION_LENGTH)}`);
+    } catch (err) {
+      logger.error(`Failed to post bot caption: ${err}`);
+    }
+  }
+
+  close(): void {
+    for (const userId of Array.from(this.captions.keys())) {
+      this.finalize(userId);
+    }
+  }
+
+  private startCaption(speaker: Speaker): LiveCaption {
+    const caption: LiveCaption = {
+      speaker,
+      finalText: '',
+      interimText: '',
+      message: null,
+      lastEditAt: 0,
+      editTimer: null,
+      finalizeTimer: null,
+    };
+    this.captions.set(speaker.userId, caption);
+    return caption;
+  }
+
+  private render(caption: LiveCaption, live: boolean): string {
+    const text = [caption.finalText, caption.interimText].filter(Boolean).join(' ');
+    return `**${caption.speaker.displayName}:** ${text}${live ? ' …' : ''}`;
+  }
+
+  private scheduleEdit(caption: LiveCaption): void {
+    if (caption.editTimer) return;
+
+    const wait = Math.max(0, caption.lastEditAt + EDIT_INTERVAL_MS - Date.now());
+    caption.editTimer = setTimeout(() => {
+      caption.editTimer = null;
+      this.flush(caption, true);
+    }, wait);
+  }
+
+  private flush(caption: LiveCaption, live: boolean): void {
+    const content = this.render(caption, live);
+    caption.lastEditAt = Date.now();
+
+    if (!caption.message) {
+      caption.message = this.channel.send(content).catch((err) => {
+        logger.error(`Failed to post caption: ${err}`);
+        return null;
+      });
+      return;
+    }
+
+    caption.message = caption.message.then(async (message) => {
+      if (!message) return null;
+      try {
+        return await message.edit(content);
+      } catch (err) {
+        logger.error(`Failed to update caption: ${err}`);
+        return message;
+      }
+    });
+  }
+
+  private finalize(userId: string): void {
+    const caption = this.captions.get(userId);
+    if (!caption) return;
+    this.captions.delete(userId);
+
+    if (caption.editTimer) clearTimeout(caption.editTimer);
+    if (caption.finalizeTimer) clearTimeout(caption.finalizeTimer);
+
+    if (!caption.finalText && !caption.interimText) return;
+    this.flush(caption, false);
+  }
+}
@@ -1,11 +1,42 @@
 import '../config/env';
-import { Client, GatewayIntentBits, Partials, Message } from 'discord.js';
-import { joinVoiceChannel, VoiceConnection, VoiceConnectionStatus, entersState, getVoiceConnection } from '@discordjs/voice';
+import {
+  AutocompleteInteraction,
+  ChannelType,
+  ChatInputCommandInteraction,
+  Client,
+  Events,
+  GatewayIntentBits,
+  Interaction,
+  Message,
+  Partials,
+  PermissionFlagsBits,
+  RESTPostAPIChatInputApplicationCommandsJSONBody,
+  VoiceState,
+} from 'discord.js';
+import { joinVoiceChannel, VoiceConnection, VoiceConnectionStatus, entersState, getVoiceConnection, getVoiceConnections } from '@discordjs/voice';
 import { logger } from '../utils/logger';
+import {
+  buildSlashCommands,
+  COMMAND_PREFIX,
+  CommandContext,
+  CommandHandler,
+  createSlashContext,
+  createTextContext,
+  getCommandDefinition,
+} from './commands';
+
+export type SpeakerStatus = 'speaking' | 'waiting' | 'denied';
+
+export const SPEAKER_STATUS_LABELS: Record<SpeakerStatus, string> = {
+  speaking: 'speaking',
+  waiting: 'waiting for approval',
+  denied: 'denied',
+};
 
 export class DiscordClient {
   private client: Client;
-  private connection: VoiceConnection | null = null;
+  private commandHandlers: Map<string, CommandHandler> = new Map();
+  private registeredCommands: RESTPostAPIChatInputApplicationCommandsJSONBody[] = [];
 
   constructor() {
     this.client = new Client({
@@ -17,6 +48,25 @@ export class DiscordClient {
       ],
       partials: [Partials.Channel],
     });
+
+    this.client.once(Events.ClientReady, async () => {
+      await this.registerCommands();
+    });
+
+    this.client.on(Events.InteractionCreate, async (interaction: Interaction) => {
+      if (interaction.isAutocomplete()) {
+        await this.handleAutocomplete(interaction);
+      } else if (interaction.isChatInputCommand()) {
+        await this.handleSlashCommand(interaction);
+      }
+    });
+
+    this.client.on(Events.MessageCreate, async (msg) => {
+      if (!msg.content || msg.author.bot) return;
+      if (msg.content.startsWith(COMMAND_PREFIX)) {
+        await this.handleTextCommand(msg);
+      }
+    });
   }
 
   async connect(): Promise<void> {
@@ -27,8 +77,7 @@ export class DiscordClient {
   }
 
   async disconnect(): Promise<void> {
-    const conn = this.connection || getVoiceConnection('');
-    if (conn) {
+    for (const conn of getVoiceConnections().values()) {
       try { conn.destroy(); } catch {}
     }
     await this.client.destroy();
@@ -39,11 +88,117 @@ export class DiscordClient {
     return this.client;
   }
 
+  onReady(callback: () => void | Promise<void>): void {
+    this.client.once(Events.ClientReady, async () => {
+      try {
+        await callback();
+      } catch (err) {
+        logger.error(`Ready handler failed: ${err}`);
+      }
+    });
+  }
+
+  /**
+   * Register the slash command set with Discord. Uses DISCORD_GUILD_ID for
+   * instant per-guild registration during development, global otherwise.
+   */
+  async registerCommands(): Promise<void> {
+    const commands = buildSlashCommands();
+    const guildId = process.env.DISCORD_GUILD_ID;
+
+    try {
+      if (guildId) {
+        const guild = await this.client.guilds.fetch(guildId);
+        await guild.commands.set(commands);
+        logger.info(`Registered ${commands.length} slash commands in guild ${guildId}`);
+      } else if (this.client.application) {
+        await this.client.application.commands.set(commands);
+        logger.info(`Registered ${commands.length} global slash commands`);
+      }
+      this.registeredCommands = commands;
+    } catch (err) {
+      logger.error(`Failed to register slash commands: ${err}`);
+    }
+  }
+
+  async getRegisteredCommands(): Promise<RESTPostAPIChatInputApplicationCommandsJSONBody[]> {
+    return this.registeredCommands;
+  }
+
+  /**
+   * Register the handler shared by `/name` and `!name`
+   */
+  onCommand(name: string, handler: CommandHandler): void {
+    if (!getCommandDefinition(name)) {
+      throw new Error(`Unknown command: ${name}`);
+    }
+    this.commandHandlers.set(name, handler);
+  }
+
+  async handleSlashCommand(interaction: ChatInputCommandInteraction): Promise<void> {
+    const ctx = createSlashContext(interaction);
+    await this.dispatchCommand(ctx);
+  }
+
+  async handleTextCommand(message: Message): Promise<void> {
+    const body = message.content.slice(COMMAND_PREFIX.length);
+    const [name] = body.split(/\s+/, 1);
+    const def = getCommandDefinition(name.toLowerCase());
+    if (!def) return;
+
+    const ctx = createTextContext(message, def, body.slice(name.length));
+    await this.dispatchCommand(ctx);
+  }
+
+  private async dispatchCommand(ctx: CommandContext): Promise<void> {
+    const handler = this.commandHandlers.get(ctx.commandName);
+    if (!handler) {
+      logger.warn(`No handler registered for command ${ctx.commandName}`);
+      return;
+    }
+
+    try {
+      await handler(ctx);
+    } catch (e: any) {
+      logger.error(`Command ${ctx.commandName} failed: ${e?.message || e}`);
+      await ctx.reply(`Command failed: ${e?.message || 'Unknown error'}`, { ephemeral: true }).catch(() => {});
+    }
+  }
+
+  /**
+   * Suggest voice and stage channels in the invoking guild for `channel` options
+   */
+  private async handleAutocomplete(interaction: AutocompleteInteraction): Promise<void> {
+    const focused = interaction.options.getFocused(true);
+    if (focused.name !== 'channel' || !interaction.guild) {
+      await interaction.respond([]);
+      return;
+    }
+
+    const wantStage = interaction.commandName === 'stage';
+    const query = focused.value.toLowerCase();
+    const choices = interaction.guild.channels.cache
+      .filter((c) =>
+        wantStage
+          ? c.type === ChannelType.GuildStageVoice
+          : c.type === ChannelType.GuildVoice || c.type === ChannelType.GuildStageVoice
+      )
+      .filter((c) => c.name.toLowerCase().includes(query))
+      .first(25)
+      .map((c) => ({ name: c.name, value: c.id }));
+
+    try {
+      await interaction.respond(choices);
+    } catch (err) {
+      logger.error(`Autocomplete failed: ${err}`);
+    }
+  }
+
   async joinVoiceChannel(channelId: string): Promise<VoiceConnection> {
     const channel = await this.client.channels.fetch(channelId);
     if (!channel || !('guild' in channel)) throw new Error('Invalid channel');
 
-    this.connection = joinVoiceChannel({
+    const connection = joinVoiceChannel({
       channelId,
       guildId: channel.guild.id,
       adapterCreator: channel.guild.voiceAdapterCreator as any,
@@ -51,9 +206,14 @@ export class DiscordClient {
       selfMute: false,
     });
 
-    await entersState(this.connection, VoiceConnectionStatus.Ready, 15_000);
+    try {
+      await entersState(connection, VoiceConnectionStatus.Ready, 15_000);
+    } catch (err) {
+      connection.destroy();
+      throw err;
+    }
     logger.info(`Joined voice channel ${channelId}`);
-    return this.connection;
+    return connection;
   }
 
   async joinStageChannel(channelId: string): Promise<VoiceConnection> {
@@ -61,22 +221,103 @@ export class DiscordClient {
     return this.joinVoiceChannel(channelId);
   }
 
-  async requestSpeakerPermission(): Promise<void> {
-    // Caller should ensure bot has moderator perms on stage.
-    // The unsuppress call requires fetching the GuildMember for the bot.
-    // This is a placeholder; actual elevation must be done by a moderator or via permissions.
-    logger.info('Requesting speaker permission (ensure bot has Stage Moderator)');
+  /**
+   * Become a speaker on the stage the bot is in. Stage moderators unsuppress
+   * themselves directly; otherwise the bot raises its hand and must be approved.
+   * When a topic is given and no stage instance is live, one is started.
+   */
+  async requestSpeakerPermission(guildId: string, topic?: string): Promise<SpeakerStatus> {
+    try {
+      const guild = await this.client.guilds.fetch(guildId);
+      const me = await guild.members.fetchMe();
+      const channel = me.voice.channel;
+
+      if (!channel || channel.type !== ChannelType.GuildStageVoice) {
+        logger.warn(`Cannot request speaker permission - not on a stage in guild ${guildId}`);
+        return 'denied';
+      }
+
+      const perms = channel.permissionsFor(me);
+      const isModerator = perms.has([
+        PermissionFlagsBits.ManageChannels,
+        PermissionFlagsBits.MuteMembers,
+        PermissionFlagsBits.MoveMembers,
+      ]);
+
+      if (topic && isModerator && !channel.stageInstance) {
+        await channel.createStageInstance({ topic });
+        logger.info(`Started stage instance "${topic}" in ${channel.name}`);
+      }
+
+      if (!me.voice.suppress) return 'speaking';
+
+      if (perms.has(PermissionFlagsBits.MuteMembers)) {
+        await me.voice.setSuppressed(false);
+        logger.info(`Unsuppressed on stage ${channel.name}`);
+        return 'speaking';
+      }
+
+      if (perms.has(PermissionFlagsBits.RequestToSpeak)) {
+        await me.voice.setRequestToSpeak(true);
+        logger.info(`Requested to speak on stage ${channel.name}`);
+        return 'waiting';
+      }
+
+      logger.warn(`Missing Request to Speak permission on stage ${channel.name}`);
+      return 'denied';
+    } catch (err) {
+      logger.error(`Failed to request speaker permission: ${err}`);
+      return 'denied';
+    }
   }
 
-  async leaveVoiceChannel(): Promise<void> {
-    if (this.connection) {
-      this.connection.destroy();
-      this.connection = null;
-      logger.info('Left voice channel');
+  /**
+   * Resolve once a moderator accepts or dismisses the bot's request to speak.
+   * Resolves 'waiting' if nobody acts before the timeout.
+   */
+  waitForSpeakerApproval(guildId: string, timeoutMs = 300_000): Promise<SpeakerStatus> {
+    return new Promise((resolve) => {
+      const botId = this.client.user?.id;
+
+      const listener = (oldState: VoiceState, newState: VoiceState) => {
+        if (newState.guild.id !== guildId || newState.id !== botId) return;
+
+        if (!newState.channelId) {
+          finish('denied');
+        } else if (!newState.suppress) {
+          finish('speaking');
+        } else if (oldState.requestToSpeakTimestamp && !newState.requestToSpeakTimestamp) {
+          finish('denied');
+        }
+      };
+
+      const timer = setTimeout(() => finish('waiting'), timeoutMs);
+
+      const finish = (status: SpeakerStatus) => {
+        clearTimeout(timer);
+        this.client.off(Events.VoiceStateUpdate, listener);
+        resolve(status);
+      };
+
+      this.client.on(Events.VoiceStateUpdate, listener);
+    });
+  }
+
+  /**
+   * Leave the voice channel in one guild, or in every guild when none is given
+   */
+  async leaveVoiceChannel(guildId?: string): Promise<void> {
+    const connections = guildId
+      ? [getVoiceConnection(guildId)].filter((c): c is VoiceConnection => !!c)
+      : Array.from(getVoiceConnections().values());
+
+    for (const conn of connections) {
+      try { conn.destroy(); } catch {}
+      logger.info(`Left voice channel in guild ${conn.joinConfig.guildId}`);
     }
   }
 
   onTextMessage(callback: (message: Message) => void): void {
     this.client.on('messageCreate', (msg) => callback(msg));
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,392 @@
+import {
+  ChannelType,
+  ChatInputCommandInteraction,
+  Guild,
+  GuildMember,
+  Message,
+  MessageFlags,
+  RESTPostAPIChatInputApplicationCommandsJSONBody,
+  SlashCommandBuilder,
+  TextBasedChannel,
+  User,
+} from 'discord.js';
+import { BARGE_IN_SENSITIVITIES } from '../voice/barge-in';
+import { RESPONSE_MODES } from '../voice/response-policy';
+
+export type CommandOptionType = 'string' | 'user' | 'integer' | 'channel';
+
+export interface CommandOptionDefinition {
+  name: string;
+  description: string;
+  type: CommandOptionType;
+  required?: boolean;
+  autocomplete?: boolean;
+  choices?: string[];
+  channelTypes?: Array<ChannelType.GuildText | ChannelType.GuildAnnouncement>;
+  /** For `!` commands: consume the rest of the message instead of one word */
+  rest?: boolean;
+}
+
+export interface CommandDefinition {
+  name: string;
+  description: string;
+  options?: CommandOptionDefinition[];
+  /** Slash replies are only visible to the invoking user */
+  ephemeral?: boolean;
+}
+
+export interface ReplyOptions {
+  ephemeral?: boolean;
+  files?: ReplyFile[];
+}
+
+export interface ReplyFile {
+  name: string;
+  data: Buffer;
+}
+
+/**
+ * Source-independent view of a command invocation, so the same handler serves
+ * both `/join` and `!join`.
+ */
+export interface CommandContext {
+  source: 'slash' | 'text';
+  commandName: string;
+  user: User;
+  guild: Guild | null;
+  member: GuildMember | null;
+  channel: TextBasedChannel | null;
+  getString(name: string): string | null;
+  getInteger(name: string): number | null;
+  /** Acknowledge a slow command so the slash interaction does not time out */
+  defer(): Promise<void>;
+  reply(content: string, options?: ReplyOptions): Promise<void>;
+}
+
+export type CommandHandler = (ctx: CommandContext) => Promise<void>;
+
+export const COMMAND_PREFIX = '!';
+
+export const COMMAND_DEFINITIONS: CommandDefinition[] = [
+  {
+    name: 'join',
+    description: 'Join a voice or stage channel (defaults to your current channel)',
+    options: [
+      { name: 'channel', description: 'Voice channel to join', type: 'string', autocomplete: true },
+    ],
+  },
+  {
+    name: 'stage',
+    description: 'Join a stage channel and request to speak',
+    options: [
+      { name: 'channel', description: 'Stage channel to join', type: 'string', required: true, autocomplete: true },
+      { name: 'topic', description: 'Start the stage with this topic', type: 'string', rest: true },
+    ],
+  },
+  {
+    name: 'listen',
+    description: 'Start listening to a specific user',
+    ephemeral: true,
+    options: [
+      { name: 'user', description: 'User to listen to', type: 'user', required: true },
+    ],
+  },
+  {
+    name: 'leave',
+    description: 'Leave the voice channel',
+  },
+  {
+    name: 'say',
+    description: 'Speak text in the voice channel',
+    options: [
+      { name: 'text', description: 'Text to speak', type: 'string', required: true, rest: true },
+    ],
+  },
+  {
+    name: 'pause',
+    description: 'Pause speech playback',
+  },
+  {
+    name: 'resume',
+    description: 'Resume paused speech playback',
+  },
+  {
+    name: 'skip',
+    description: 'Skip what the bot is currently saying',
+  },
+  {
+    name: 'stop',
+    description: 'Stop speaking and clear the speech queue',
+  },
+  {
+    name: 'queue',
+    description: 'Show the speech queue',
+    ephemeral: true,
+  },
+  {
+    name: 'clear',
+    description: 'Clear the conversation context',
+    ephemeral: true,
+  },
+  {
+    name: 'bargein',
+    description: 'Show or set how easily speech interrupts the bot',
+    options: [
+      {
+        name: 'sensitivity',
+        description: 'Barge-in sensitivity',
+        type: 'string',
+        choices: BARGE_IN_SENSITIVITIES,
+      },
+    ],
+  },
+  {
+    name: 'mode',
+    description: 'Show or set when the bot replies: always, on a wake phrase, or push-to-talk',
+    options: [
+      { name: 'mode', description: 'Response mode', type: 'string', choices: RESPONSE_MODES },
+      {
+        name: 'value',
+        description: 'Wake phrase (wake) or user/role mention (ptt)',
+        type: 'string',
+        rest: true,
+      },
+    ],
+  },
+  {
+    name: 'captions',
+    description: 'Post live captions of the voice channel into a thread or text channel',
+    options: [
+      { name: 'state', description: 'Turn captions on or off', type: 'string', required: true, choices: ['on', 'off'] },
+      {
+        name: 'channel',
+        description: 'Channel to caption into (default: a new thread here)',
+        type: 'channel',
+        channelTypes: [ChannelType.GuildText, ChannelType.GuildAnnouncement],
+      },
+    ],
+  },
+  {
+    name: 'model',
+    description: 'Show the chat models available to this server, or switch to one',
+    options: [
+      { name: 'name', description: 'Model to switch to, or text to search for', type: 'string' },
+    ],
+  },
+  {
+    name: 'llm',
+    description: 'Show or change the chat backend settings for this server',
+    ephemeral: true,
+    options: [
+      {
+        name: 'setting',
+        description: 'Setting to change',
+        type: 'string',
+        choices: ['provider', 'base_url', 'auth', 'api_key_env', 'fallbacks', 'temperature', 'max_tokens', 'reset'],
+      },
+      { name: 'value', description: 'New value', type: 'string', rest: true },
+    ],
+  },
+  {
+    name: 'persona',
+    description: 'Show the personas, or switch to one',
+    options: [
+      { name: 'name', description: 'Persona to use, or "reset" to clear the choice', type: 'string' },
+      {
+        name: 'scope',
+        description: 'This session only (default), or the default for this channel or server',
+        type: 'string',
+        choices: ['session', 'channel', 'guild'],
+      },
+    ],
+  },
+  {
+    name: 'language',
+    description: 'Show or pin the language you speak',
+    ephemeral: true,
+    options: [
+      {
+        name: 'language',
+        description: 'A language code such as es or pt-BR, "auto" to detect it, or "reset"',
+        type: 'string',
+      },
+    ],
+  },
+  {
+    name: 'quota',
+    description: 'Show or change the usage budgets for this server',
+    ephemeral: true,
+    options: [
+      {
+        name: 'setting',
+        description: 'What to change',
+        type: 'string',
+        choices: ['set', 'remove', 'warn', 'action', 'reset'],
+      },
+      {
+        name: 'value',
+        description: 'e.g. "user daily minutes 30" for set, "80" for warn, "text" for action',
+        type: 'string',
+        rest: true,
+      },
+    ],
+  },
+  {
+    name: 'usage',
+    description: 'Show this server\'s usage, or export it as CSV',
+    ephemeral: true,
+    options: [
+      { name: 'period', description: 'Today (default) or this month', type: 'string', choices: ['day', 'month'] },
+      { name: 'format', description: 'A summary (default) or a CSV file', type: 'string', choices: ['summary', 'csv'] },
+    ],
+  },
+  {
+    name: 'debug',
+    description: 'Show diagnostics for the voice session',
+    ephemeral: true,
+    options: [
+      {
+        name: 'target',
+        description: 'What to inspect',
+        type: 'string',
+        required: true,
+        choices: ['audio', 'stt', 'pipeline', 'latency'],
+      },
+    ],
+  },
+];
+
+export function getCommandDefinition(name: string): CommandDefinition | undefined {
+  return COMMAND_DEFINITIONS.find((def) => def.name === name);
+}
+
+/**
+ * Build the JSON payloads sent to Discord when registering application commands
+ */
+export function buildSlashCommands(): RESTPostAPIChatInputApplicationCommandsJSONBody[] {
+  return COMMAND_DEFINITIONS.map((def) => {
+    const builder = new SlashCommandBuilder().setName(def.name).setDescription(def.description);
+
+    for (const opt of def.options ?? []) {
+      if (opt.type === 'user') {
+        builder.addUserOption((o) =>
+          o.setName(opt.name).setDescription(opt.description).setRequired(opt.required ?? false)
+        );
+      } else if (opt.type === 'channel') {
+        builder.addChannelOption((o) => {
+          o.setName(opt.name).setDescription(opt.description).setRequired(opt.required ?? false);
+          if (opt.channelTypes) o.addChannelTypes(...opt.channelTypes);
+          return o;
+        });
+      } else if (opt.type === 'integer') {
+        builder.addIntegerOption((o) =>
+          o.setName(opt.name).setDescription(opt.description).setRequired(opt.required ?? false)
+        );
+      } else {
+        builder.addStringOption((o) => {
+          o.setName(opt.name).setDescription(opt.description).setRequired(opt.required ?? false);
+          if (opt.autocomplete) o.setAutocomplete(true);
+          if (opt.choices) o.addChoices(...opt.choices.map((c) => ({ name: c, value: c })));
+          return o;
+        });
+      }
+    }
+
+    return builder.toJSON();
+  });
+}
+
+/**
+ * Strip Discord mention syntax (`<#id>`, `<@id>`, `<@!id>`, `<@&id>`) down to the raw ID
+ */
+export function stripMention(value: string): string {
+  const match = value.match(/^<(?:#|@[!&]?)(\d+)>$/);
+  return match ? match[1] : value;
+}
+
+/**
+ * Map the words after `!command` onto the definition's options in order
+ */
+export function parseTextArguments(def: CommandDefinition, argText: string): Map<string, string> {
+  const args = new Map<string, string>();
+  let remaining = argText.trim();
+
+  for (const opt of def.options ?? []) {
+    if (!remaining) break;
+
+    if (opt.rest) {
+      args.set(opt.name, remaining);
+      break;
+    }
+
+    const [word, ...rest] = remaining.split(/\s+/);
+    args.set(opt.name, stripMention(word));
+    remaining = rest.join(' ');
+  }
+
+  return args;
+}
+
+export function createSlashContext(interaction: ChatInputCommandInteraction): CommandContext {
+  const def = getCommandDefinition(interaction.commandName);
+  const ephemeralByDefault = def?.ephemeral ?? false;
+
+  return {
+    source: 'slash',
+    commandName: interaction.commandName,
+    user: interaction.user,
+    guild: interaction.guild,
+    member: (interaction.member as GuildMember | null) ?? null,
+    channel: interaction.channel,
+    getString: (name) => {
+      const type = def?.options?.find((o) => o.name === name)?.type;
+      if (type === 'user') return interaction.options.getUser(name)?.id ?? null;
+      if (type === 'channel') return interaction.options.getChannel(name)?.id ?? null;
+      return interaction.options.getString(name);
+    },
+    getInteger: (name) => interaction.options.getInteger(name),
+    defer: async () => {
+      if (interaction.deferred || interaction.replied) return;
+      await interaction.deferReply(ephemeralByDefault ? { flags: MessageFlags.Ephemeral } : {});
+    },
+    reply: async (content, options) => {
+      const ephemeral = options?.ephemeral ?? ephemeralByDefault;
+      const files = toAttachments(options?.files);
+      if (interaction.deferred && !interaction.replied) {
+        await interaction.editReply({ content, files });
+      } else if (interaction.replied) {
+        await interaction.followUp(ephemeral ? { content, files, flags: MessageFlags.Ephemeral } : { content, files });
+      } else {
+        await interaction.reply(ephemeral ? { content, files, flags: MessageFlags.Ephemeral } : { content, files });
+      }
+    },
+  };
+}
+
+export function createTextContext(message: Message, def: CommandDefinition, argText: string): CommandContext {
+  const args = parseTextArguments(def, argText);
+
+  return {
+    source: 'text',
+    commandName: def.name,
+    user: message.author,
+    guild: message.guild,
+    member: message.member ?? message.guild?.members.cache.get(message.author.id) ?? null,
+    channel: message.channel,
+    getString: (name) => args.get(name) ?? null,
+    getInteger: (name) => {
+      const value = args.get(name);
+      if (value === undefined) return null;
+      const parsed = parseInt(value, 10);
+      return Number.isNaN(parsed) ? null : parsed;
+    },
+    defer: async () => {},
+    reply: async (content, options) => {
+      await message.reply({ content, files: toAttachments(options?.files) });
+    },
+  };
+}
+
+function toAttachments(files: ReplyFile[] = []): Array<{ attachment: Buffer; name: string }> {
+  return files.map(({ name, data }) => ({ attachment: data, name }));
+}
@@ -0,0 +1,41 @@
+import { ChatSettings } from '../voice/providers/types';
+import { QuotaSettings } from '../voice/quota';
+import { dataPath, readJsonFile, writeJsonFile } from '../utils/storage';
+
+export interface GuildSettings {
+  chat?: ChatSettings;
+  /** Default persona for the guild */
+  persona?: string;
+  /** Per voice channel defaults, which win over the guild's */
+  channelPersonas?: Record<string, string>;
+  /** Usage budgets and what happens when one runs out */
+  quotas?: QuotaSettings;
+}
+
+/**
+ * Per-guild configuration that survives restarts
+ */
+export class GuildSettingsStore {
+  private file: string;
+  private settings: Record<string, GuildSettings>;
+
+  constructor(file = process.env.GUILD_SETTINGS_FILE || dataPath('guilds.json')) {
+    this.file = file;
+    this.settings = readJsonFile<Record<string, GuildSettings>>(file, {});
+  }
+
+  get(guildId: string): GuildSettings {
+    return this.settings[guildId] ?? {};
+  }
+
+  /**
+   * Change a guild's settings in place and save them
+   */
+  update(guildId: string, change: (settings: GuildSettings) => void): GuildSettings {
+    const settings = this.settings[guildId] ?? {};
+    change(settings);
+    this.settings[guildId] = settings;
+    writeJsonFile(this.file, this.settings);
+    return settings;
+  }
+}
@@ -0,0 +1,827 @@
+import { ChannelType, PermissionFlagsBits } from 'discord.js';
+import { DiscordClient, SPEAKER_STATUS_LABELS } from './client';
+import { CommandContext, stripMention } from './commands';
+import { CaptionRelay } from './captions';
+import { GuildSettingsStore } from './guild-settings';
+import { UserSettingsStore } from './user-settings';
+import { SessionManager, VoiceSession } from './sessions';
+import { BARGE_IN_SENSITIVITIES, isBargeInSensitivity } from '../voice/barge-in';
+import { isResponseMode, RESPONSE_MODES } from '../voice/response-policy';
+import { chatCircuitBreaker } from '../voice/circuit-breaker';
+import { PersonaLibrary } from '../voice/persona';
+import { AUTO_LANGUAGE, LANGUAGE_VOICES, languageName, normalizeLanguage } from '../voice/language';
+import {
+  DEFAULT_QUOTA_ACTION,
+  DEFAULT_WARN_PERCENT,
+  estimateCost,
+  formatAmount,
+  measure,
+  periodStart,
+  QUOTA_ACTIONS,
+  QUOTA_METRICS,
+  QUOTA_PERIODS,
+  QUOTA_SCOPES,
+  QuotaAction,
+  QuotaLimit,
+  QuotaSettings,
+} from '../voice/quota';
+import { UsageAmounts, usageDay, UsageMeter } from '../voice/usage';
+import { providerRegistry } from '../voice/providers/registry';
+import { CHAT_AUTH_STYLES, ChatAuthStyle, ChatSettings } from '../voice/providers/types';
+import { logger } from '../utils/logger';
+
+/**
+ * Resolve the channel to join: an explicit option, else the caller's current voice channel
+ */
+function resolveTargetChannel(ctx: CommandContext): string | null {
+  const explicit = ctx.getString('channel');
+  if (explicit) return explicit;
+
+  const member = ctx.member ?? ctx.guild?.members.cache.get(ctx.user.id);
+  const userChannel = member?.voice?.channel;
+  if (!userChannel) return null;
+
+  logger.info(`Smart join: Found user ${ctx.user.username} in channel ${userChannel.name}`);
+  return userChannel.id;
+}
+
+/**
+ * Look up the session for the guild a command came from, replying with a hint when there is none
+ */
+async function requireSession(sessions: SessionManager, ctx: CommandContext, hint = 'No active voice session.'): Promise<VoiceSession | null> {
+  const session = ctx.guild ? sessions.get(ctx.guild.id) : undefined;
+  if (!session) {
+    await ctx.reply(hint);
+    return null;
+  }
+  return session;
+}
+
+/**
+ * Only members who can manage the server may change its settings
+ */
+async function requireManager(ctx: CommandContext): Promise<boolean> {
+  if (ctx.member?.permissions.has(PermissionFlagsBits.ManageGuild)) return true;
+  await ctx.reply('You need the Manage Server permission to change that.', { ephemeral: true });
+  return false;
+}
+
+/** Base URLs guilds may point the chat backend at, besides the provider defaults */
+function allowedBaseUrls(): string[] {
+  return (process.env.LLM_ALLOWED_BASE_URLS || '').split(',').map((url) => url.trim()).filter(Boolean);
+}
+
+/** Environment variables guilds may pick their chat API key from, besides the provider defaults */
+function allowedApiKeyEnvs(): string[] {
+  return (process.env.LLM_ALLOWED_API_KEY_ENVS || '').split(',').map((name) => name.trim()).filter(Boolean);
+}
+
+/**
+ * Apply one `!llm` setting to a guild's chat overrides. Returns an error message for bad input.
+ */
+function applyChatSetting(chat: ChatSettings, setting: string, value: string): string | null {
+  switch (setting) {
+    case 'provider': {
+      const available = providerRegistry.list().chat;
+      if (!available.includes(value)) return `Unknown provider. Available: ${available.join(', ')}`;
+      chat.provider = value;
+      // Models and endpoints are provider specific
+      delete chat.model;
+      delete chat.baseUrl;
+      return null;
+    }
+    case 'base_url': {
+      const url = value.replace(/\/+$/, '');
+      // API keys are sent to this URL, so only operator-approved endpoints are allowed
+      if (!allowedBaseUrls().includes(url)) {
+        return `That endpoint is not allowed. Allowed: ${allowedBaseUrls().join(', ') || 'none (set LLM_ALLOWED_BASE_URLS)'}`;
+      }
+      chat.baseUrl = url;
+      return null;
+    }
+    case 'auth':
+      if (!(CHAT_AUTH_STYLES as string[]).includes(value)) return `Auth must be one of: ${CHAT_AUTH_STYLES.join(', ')}`;
+      chat.authStyle = value as ChatAuthStyle;
+      return null;
+    case 'api_key_env':
+      // The key is sent to the chat backend, so only keys the operator set aside for it may be used
+      if (!allowedApiKeyEnvs().includes(value)) {
+        return `That key is not allowed. Allowed: ${allowedApiKeyEnvs().join(', ') || 'none (set LLM_ALLOWED_API_KEY_ENVS)'}`;
+      }
+      chat.apiKeyEnv = value;
+      return null;
+    case 'temperature': {
+      const temperature = Number(value);
+      if (!Number.isFinite(temperature) || temperature < 0 || temperature > 2) return 'Temperature must be between 0 and 2.';
+      chat.temperature = temperature;
+      return null;
+    }
+    case 'fallbacks': {
+      // Comma-separated, or "none" to clear
+      const models = value.toLowerCase() === 'none' ? [] : value.split(',').map((m) => m.trim()).filter(Boolean);
+      chat.fallbackModels = models;
+      return null;
+    }
+    case 'max_tokens': {
+      const maxTokens = Number(value);
+      if (!Number.isInteger(maxTokens) || maxTokens < 1 || maxTokens > 8192) return 'Max tokens must be a whole number from 1 to 8192.';
+      chat.maxTokens = maxTokens;
+      return null;
+    }
+    default:
+      return `Unknown setting "${setting}".`;
+  }
+}
+
+function describeChatSettings(chat: ChatSettings): string {
+  const labels: Array<[string, unknown]> = [
+    ['provider', chat.provider],
+    ['base_url', chat.baseUrl],
+    ['auth', chat.authStyle],
+    ['api_key_env', chat.apiKeyEnv],
+    ['model', chat.model],
+    ['fallbacks', chat.fallbackModels?.join(',') || undefined],
+    ['temperature', chat.temperature],
+    ['max_tokens', chat.maxTokens],
+  ];
+  const overrides = labels.filter(([, value]) => value !== undefined).map(([name, value]) => `${name}=${value}`);
+  return overrides.join(', ') || 'none (using defaults)';
+}
+
+/**
+ * Apply one `!quota` change to a guild's budgets. Returns an error message for bad input.
+ */
+function applyQuotaSetting(quotas: QuotaSettings, setting: string, value: string): string | null {
+  const words = value.toLowerCase().split(/\s+/).filter(Boolean);
+  switch (setting) {
+    case 'set':
+    case 'remove': {
+      const [scope, period, metric, amount] = words;
+      const limit = { scope, period, metric, limit: Number(amount) } as QuotaLimit;
+      if (!QUOTA_SCOPES.includes(limit.scope) || !QUOTA_PERIODS.includes(limit.period) || !QUOTA_METRICS.includes(limit.metric)) {
+        return `Usage: !quota ${setting} <${QUOTA_SCOPES.join('|')}> <${QUOTA_PERIODS.join('|')}> <${QUOTA_METRICS.join('|')}>${setting === 'set' ? ' <amount>' : ''}`;
+      }
+      const others = (quotas.limits ?? []).filter(
+        (l) => !(l.scope === limit.scope && l.period === limit.period && l.metric === limit.metric)
+      );
+      if (setting === 'remove') {
+        quotas.limits = others;
+        return null;
+      }
+      if (!Number.isFinite(limit.limit) || limit.limit <= 0) return 'The amount must be a positive number.';
+      quotas.limits = [...others, limit];
+      return null;
+    }
+    case 'warn': {
+      const percent = Number(words[0]);
+      if (!Number.isFinite(percent) || percent < 1 || percent > 99) return 'Warn at a percentage from 1 to 99.';
+      quotas.warnAt = percent;
+      return null;
+    }
+    case 'action':
+      if (!QUOTA_ACTIONS.includes(words[0] as QuotaAction)) return `Action must be one of: ${QUOTA_ACTIONS.join(', ')}`;
+      quotas.action = words[0] as QuotaAction;
+      return null;
+    default:
+      return `Unknown setting "${setting}".`;
+  }
+}
+
+/**
+ * Budgets with the server's use against guild limits and the caller's against user limits
+ */
+function describeQuotas(quotas: QuotaSettings, usage: UsageMeter, guildId: string, userId: string): string {
+  const lines = (quotas.limits ?? []).map((limit) => {
+    const totals = usage.getTotals({
+      guildId,
+      userId: limit.scope === 'user' ? userId : undefined,
+      from: periodStart(limit.period),
+    });
+    const used = formatAmount(limit.metric, measure(limit.metric, totals));
+    return limit.scope === 'user'
+      ? `- ${limit.period} ${limit.metric} per user: ${formatAmount(limit.metric, limit.limit)} (you have used ${used})`
+      : `- ${limit.period} ${limit.metric} for the server: ${formatAmount(limit.metric, limit.limit)} (${used} used)`;
+  });
+  return [
+    lines.length ? 'Budgets:' : 'No budgets set.',
+    ...lines,
+    `Warn at ${quotas.warnAt ?? DEFAULT_WARN_PERCENT}%; when a budget runs out: ${quotas.action ?? DEFAULT_QUOTA_ACTION}`,
+  ].join('\n');
+}
+
+function describeUsage(totals: Required<UsageAmounts>): string {
+  return [
+    formatAmount('minutes', measure('minutes', totals)),
+    formatAmount('tokens', measure('tokens', totals)),
+    formatAmount('characters', measure('characters', totals)),
+    `est. ${formatAmount('dollars', estimateCost(totals))}`,
+  ].join(', ');
+}
+
+/**
+ * Post whether the stage request to speak was answered, without holding up
+ * the command while the moderators decide
+ */
+async function reportSpeakerApproval(
+  dc: DiscordClient,
+  sessions: SessionManager,
+  session: VoiceSession,
+  channelName: string
+): Promise<void> {
+  const outcome = await dc.waitForSpeakerApproval(session.guildId);
+  // Nobody answered, or the session was ended or replaced in the meantime
+  if (outcome === 'waiting' || sessions.get(session.guildId) !== session) return;
+
+  const channel = session.textChannel;
+  if (!channel?.isSendable()) return;
+  await channel
+    .send(`Request to speak on "${channelName}": ${SPEAKER_STATUS_LABELS[outcome]}.`)
+    .catch((err) => logger.error(`Failed to report speaker approval: ${err}`));
+}
+
+async function joinAndListen(dc: DiscordClient, sessions: SessionManager, ctx: CommandContext, forceStage: boolean): Promise<void> {
+  if (!ctx.guild) {
+    await ctx.reply('This command only works in a server.', { ephemeral: true });
+    return;
+  }
+
+  const targetChannelId = resolveTargetChannel(ctx);
+  if (!targetChannelId) {
+    await ctx.reply('You are not in a voice channel. Please join one first or specify a channel ID.', { ephemeral: true });
+    return;
+  }
+
+  await ctx.defer();
+
+  try {
+    // Check if it's a stage channel
+    const channel = await dc.getClient().channels.fetch(targetChannelId);
+    if (!channel || !('guild' in channel) || channel.guild.id !== ctx.guild.id) {
+      await ctx.reply('That channel is not in this server.');
+      return;
+    }
+    const isStage = channel.type === ChannelType.GuildStageVoice;
+    const channelName = channel.name;
+    if (forceStage && !isStage) {
+      await ctx.reply(`"${channelName}" is not a stage channel. Use !join for voice channels.`);
+      return;
+    }
+
+    const session = await sessions.start(ctx.guild.id, targetChannelId, {
+      isStage,
+      textChannel: ctx.channel,
+    });
+
+    if (!isStage) {
+      await ctx.reply(`Joined voice channel "${channelName}". Auto-listening to all users enabled.`);
+      await session.voice.startListening();
+      return;
+    }
+
+    const status = await dc.requestSpeakerPermission(ctx.guild.id, ctx.getString('topic') ?? undefined);
+    await ctx.reply(
+      status === 'waiting'
+        ? `Joined stage channel "${channelName}". Hand raised; I'll post here when a moderator answers.`
+        : `Joined stage channel "${channelName}". Speaker status: ${SPEAKER_STATUS_LABELS[status]}.`
+    );
+
+    // Start auto-listening to all users
+    await session.voice.startListening();
+
+    if (status === 'waiting') {
+      void reportSpeakerApproval(dc, sessions, session, channelName);
+    }
+  } catch (e: any) {
+    logger.error(`Failed to join channel: ${e?.message || e}`);
+    await ctx.reply(`Failed to join channel: ${e?.message || 'Unknown error'}`);
+  }
+}
+
+function describeDebugTarget(session: VoiceSession, target: string): string {
+  const { voice, pipeline } = session;
+
+  if (target === 'audio') {
+    const stats = pipeline.getAudioStats();
+    const avg = stats.packetsProcessed ? Math.round(stats.totalBytes / stats.packetsProcessed) : 0;
+    const skipped = stats.totalBytes ? Math.round(100 * (1 - stats.sentBytes / stats.totalBytes)) : 0;
+    const vad = pipeline.getVadState().map(
+      (v) => `${v.speaker.displayName}: ${v.noiseFloor}${v.speaking ? ' (speaking)' : ''}`
+    );
+    return [
+      '**Audio Statistics**',
+      `Packets: ${stats.packetsProcessed} (empty: ${stats.emptyPackets}, silent: ${stats.silentPackets})`,
+      `Bytes: ${stats.totalBytes} (avg ${avg}/packet)`,
+      `Sent to STT: ${stats.sentBytes} bytes (${skipped}% skipped by VAD${pipeline.isVadEnabled() ? '' : ', disabled'})`,
+      `Noise floor: ${vad.join(', ') || 'no speakers yet'}`,
+      `Last packet: ${stats.lastPacketTime ? new Date(stats.lastPacketTime).toISOString() : 'never'}`,
+    ].join('\n');
+  }
+
+  if (target === 'stt') {
+    const stt = pipeline.getSTTClient();
+    const speakers = pipeline.getSpeakers().map(
+      (s) => `${s.displayName}: ${pipeline.getSTTClient(s.userId).getConnectionState()}`
+    );
+    return [
+      '**STT Status**',
+      `Shared stream: ${stt.getConnectionState()} (ready: ${stt.isReady()})`,
+      `Speaker streams: ${speakers.join(', ') || 'none'}`,
+    ].join('\n');
+  }
+
+  if (target === 'latency') {
+    return ['**Turn Latency**', voice.getLatency().describe()].join('\n');
+  }
+
+  const history = pipeline.getHistory();
+  return [
+    '**Pipeline Status**',
+    `Guild: ${session.guildId} | Channel: ${session.channelId}${session.isStage ? ' (stage)' : ''}`,
+    `Active users: ${voice.getActiveUsers().join(', ') || 'none'}`,
+    `TTS: ${pipeline.getProviderNames().tts} (${pipeline.getTTSConnectionState()})`,
+    `Chat: ${pipeline.getProviderNames().chat} (${pipeline.getChatProvider().getModel?.() ?? 'unknown model'})`,
+    `Open circuits: ${chatCircuitBreaker.getOpenCircuits().map((c) => `${c.key} (${Math.ceil(c.retryInMs / 1000)}s)`).join(', ') || 'none'}`,
+    `Persona: ${pipeline.getPersona().name}`,
+    `Tools: ${pipeline.getTools().list().map((t) => `${t.name} (${t.policy})`).join(', ') || 'none'}`,
+    `History: ${history.getEntries().length} messages, ~${history.getTokenCount()}/${pipeline.getHistoryBudget()} tokens` +
+      (history.getSummary() ? ' (older turns summarized)' : ''),
+  ].join('\n');
+}
+
+/**
+ * Wire the shared command handlers into the client; each serves both `/name` and `!name`
+ */
+export function registerCommandHandlers(
+  dc: DiscordClient,
+  sessions: SessionManager,
+  settings: GuildSettingsStore,
+  personas: PersonaLibrary,
+  usage: UsageMeter,
+  users: UserSettingsStore
+): void {
+  dc.onCommand('join', (ctx) => joinAndListen(dc, sessions, ctx, false));
+
+  dc.onCommand('stage', async (ctx) => {
+    if (!ctx.getString('channel')) {
+      await ctx.reply('Usage: !stage <stage_channel_id> [topic]', { ephemeral: true });
+      return;
+    }
+    await joinAndListen(dc, sessions, ctx, true);
+  });
+
+  dc.onCommand('listen', async (ctx) => {
+    const userId = ctx.getString('user');
+
+    const session = await requireSession(sessions, ctx, 'Not in a voice channel. Use !join first.');
+    if (!session) return;
+
+    if (!userId) {
+      await ctx.reply('Usage: !listen <user_id>');
+      return;
+    }
+
+    session.voice.startListeningToUser(userId);
+    await ctx.reply(`Now listening to user ${userId}`);
+  });
+
+  dc.onCommand('leave', async (ctx) => {
+    const left = ctx.guild ? await sessions.end(ctx.guild.id) : false;
+    await ctx.reply(left ? 'Left voice channel.' : 'No active voice session.');
+  });
+
+  dc.onCommand('say', async (ctx) => {
+    const text = ctx.getString('text')?.trim();
+    if (!text) {
+      await ctx.reply('Usage: !say <text>', { ephemeral: true });
+      return;
+    }
+    const session = await requireSession(sessions, ctx, 'Not in a voice channel. Use !join <channel_id> first.');
+    if (!session) return;
+
+    const speech = session.voice.getSpeechPlayer();
+    const ahead = speech.getQueue().length + (speech.getCurrent() ? 1 : 0);
+    await ctx.reply(ahead ? `Queued: "${text}" (${ahead} ahead)` : `Saying: "${text}"`);
+
+    const outcome = await session.voice.speak(text, 'say', undefined, ctx.user.id);
+    if (outcome === 'failed') {
+      await ctx.reply('Failed to speak via TTS. Check logs.');
+    }
+  });
+
+  dc.onCommand('pause', async (ctx) => {
+    const session = await requireSession(sessions, ctx);
+    if (!session) return;
+    const paused = session.voice.getSpeechPlayer().pause();
+    await ctx.reply(paused ? 'Speech paused.' : 'Speech is already paused.');
+  });
+
+  dc.onCommand('resume', async (ctx) => {
+    const session = await requireSession(sessions, ctx);
+    if (!session) return;
+    const resumed = session.voice.getSpeechPlayer().resume();
+    await ctx.reply(resumed ? 'Speech resumed.' : 'Speech is not paused.');
+  });
+
+  dc.onCommand('skip', async (ctx) => {
+    const session = await requireSession(sessions, ctx);
+    if (!session) return;
+    const skipped = session.voice.getSpeechPlayer().skip();
+    await ctx.reply(skipped ? 'Skipped.' : 'Nothing is playing.');
+  });
+
+  dc.onCommand('stop', async (ctx) => {
+    const session = await requireSession(sessions, ctx);
+    if (!session) return;
+    const dropped = session.voice.stopSpeaking();
+    await ctx.reply(dropped ? `Stopped and cleared ${dropped} item(s).` : 'Nothing to stop.');
+  });
+
+  dc.onCommand('queue', async (ctx) => {
+    const session = await requireSession(sessions, ctx);
+    if (!session) return;
+
+    const speech = session.voice.getSpeechPlayer();
+    const current = speech.getCurrent();
+    const queued = speech.getQueue();
+    if (!current && queued.length === 0) {
+      await ctx.reply('The speech queue is empty.');
+      return;
+    }
+
+    const preview = (text: string) => (text.length > 60 ? `${text.slice(0, 57)}...` : text);
+    const lines = ['**Speech Queue**'];
+    if (current) {
+      lines.push(`${speech.isPaused() ? 'Paused' : 'Now'}: [${current.priority}] ${preview(current.text)}`);
+    }
+    queued.forEach((item, i) => lines.push(`${i + 1}. [${item.priority}] ${preview(item.text)}`));
+    await ctx.reply(lines.join('\n'));
+  });
+
+  dc.onCommand('clear', async (ctx) => {
+    const session = await requireSession(sessions, ctx);
+    if (!session) return;
+
+    session.voice.clearContext();
+    await ctx.reply('Conversation context cleared.');
+  });
+
+  dc.onCommand('bargein', async (ctx) => {
+    const session = await requireSession(sessions, ctx);
+    if (!session) return;
+
+    const value = ctx.getString('sensitivity')?.toLowerCase();
+    if (!value) {
+      await ctx.reply(`Barge-in sensitivity: ${session.voice.getBargeInSensitivity()}`);
+      return;
+    }
+    if (!(await requireManager(ctx))) return;
+    if (!isBargeInSensitivity(value)) {
+      await ctx.reply(`Usage: !bargein <${BARGE_IN_SENSITIVITIES.join('|')}>`, { ephemeral: true });
+      return;
+    }
+
+    session.voice.setBargeInSensitivity(value);
+    await ctx.reply(`Barge-in sensitivity set to ${value}.`);
+  });
+
+  dc.onCommand('mode', async (ctx) => {
+    const session = await requireSession(sessions, ctx);
+    if (!session) return;
+
+    const policy = session.voice.getResponsePolicy();
+    const mode = ctx.getString('mode')?.toLowerCase();
+    if (!mode) {
+      await ctx.reply(`Response mode: ${policy.describe()}`);
+      return;
+    }
+    if (!(await requireManager(ctx))) return;
+    if (!isResponseMode(mode)) {
+      await ctx.reply(`Usage: !mode <${RESPONSE_MODES.join('|')}> [wake phrase | @user | @role]`, { ephemeral: true });
+      return;
+    }
+
+    const value = ctx.getString('value')?.trim();
+    if (mode === 'wake' && value) {
+      policy.setWakePhrase(value);
+    } else if (mode === 'ptt') {
+      policy.clearPushToTalk();
+      const ids = value ? value.split(/\s+/).map(stripMention) : [ctx.user.id];
+      for (const id of ids) {
+        if (ctx.guild?.roles.cache.has(id)) {
+          policy.addPushToTalkRole(id);
+        } else {
+          policy.addPushToTalkUser(id);
+        }
+      }
+    }
+
+    policy.setMode(mode);
+    await ctx.reply(`Response mode set to ${policy.describe()}.`);
+  });
+
+  dc.onCommand('captions', async (ctx) => {
+    const session = await requireSession(sessions, ctx);
+    if (!session) return;
+
+    const state = ctx.getString('state')?.toLowerCase();
+    if (state === 'off') {
+      session.voice.setCaptions(null);
+      await ctx.reply('Live captions off.');
+      return;
+    }
+    if (state !== 'on') {
+      await ctx.reply('Usage: !captions <on|off> [#channel]', { ephemeral: true });
+      return;
+    }
+
+    const channelId = ctx.getString('channel');
+    const target = channelId ? await dc.getClient().channels.fetch(channelId).catch(() => null) : ctx.channel;
+    if (!target || !target.isTextBased() || ('guildId' in target && target.guildId !== ctx.guild?.id)) {
+      await ctx.reply('I can only post captions in a text channel in this server.', { ephemeral: true });
+      return;
+    }
+
+    const relay = await CaptionRelay.open(target, !channelId);
+    session.voice.setCaptions(relay);
+    await ctx.reply(`Live captions on in <#${relay.getChannelId()}>.`);
+  });
+
+  dc.onCommand('model', async (ctx) => {
+    if (!ctx.guild) {
+      await ctx.reply('This command only works in a server.', { ephemeral: true });
+      return;
+    }
+    const guildId = ctx.guild.id;
+
+    await ctx.defer();
+    const chat = sessions.getChatModel(guildId);
+    const current = chat.getModel?.() ?? 'unknown';
+    const models = await chat.listModels?.().catch((err) => {
+      logger.warn(`Failed to list models for guild ${guildId}: ${err}`);
+      return null;
+    }) ?? null;
+
+    const name = ctx.getString('name')?.trim();
+    if (!name || (models && !models.includes(name))) {
+      const matches = name ? models?.filter((m) => m.toLowerCase().includes(name.toLowerCase())) ?? [] : models ?? [];
+      const lines = [name ? `No model named "${name}".` : `Current model: ${current} (${chat.name})`];
+      if (models === null) {
+        lines.push('This backend does not list its models.');
+      } else if (matches.length > 0) {
+        const shown = matches.slice(0, 20);
+        lines.push(`${name ? 'Matching' : 'Available'} (${matches.length}): ${shown.join(', ')}${matches.length > shown.length ? ', ...' : ''}`);
+      }
+      await ctx.reply(lines.join('\n'));
+      return;
+    }
+
+    if (!(await requireManager(ctx))) return;
+    settings.update(guildId, (s) => {
+      s.chat = { ...s.chat, model: name };
+    });
+    sessions.applyChatSettings(guildId);
+    await ctx.reply(`Model set to ${name}${models ? '' : ' (not verified: this backend does not list its models)'}.`);
+  });
+
+  dc.onCommand('llm', async (ctx) => {
+    if (!ctx.guild) {
+      await ctx.reply('This command only works in a server.', { ephemeral: true });
+      return;
+    }
+    const guildId = ctx.guild.id;
+
+    const setting = ctx.getString('setting')?.toLowerCase();
+    if (!setting) {
+      const chat = sessions.getChatModel(guildId);
+      await ctx.reply([
+        `Chat backend: ${chat.name} (model: ${chat.getModel?.() ?? 'unknown'})`,
+        `Overrides: ${describeChatSettings(settings.get(guildId).chat ?? {})}`,
+      ].join('\n'));
+      return;
+    }
+    if (!(await requireManager(ctx))) return;
+
+    if (setting === 'reset') {
+      settings.update(guildId, (s) => {
+        delete s.chat;
+      });
+      sessions.applyChatSettings(guildId);
+      await ctx.reply('Chat backend settings reset to defaults.');
+      return;
+    }
+
+    const value = ctx.getString('value')?.trim();
+    if (!value) {
+      await ctx.reply(`Usage: !llm ${setting} <value>`);
+      return;
+    }
+
+    const chat: ChatSettings = { ...settings.get(guildId).chat };
+    const error = applyChatSetting(chat, setting, value);
+    if (error) {
+      await ctx.reply(error);
+      return;
+    }
+
+    // Build the backend before saving so a broken combination is never persisted
+    providerRegistry.createChatModelWith(chat);
+    settings.update(guildId, (s) => {
+      s.chat = chat;
+    });
+    sessions.applyChatSettings(guildId);
+    await ctx.reply(`Chat backend updated: ${describeChatSettings(chat)}`);
+  });
+
+  dc.onCommand('persona', async (ctx) => {
+    if (!ctx.guild) {
+      await ctx.reply('This command only works in a server.', { ephemeral: true });
+      return;
+    }
+    const guildId = ctx.guild.id;
+    const session = sessions.get(guildId);
+    const name = ctx.getString('name')?.trim().toLowerCase();
+    const scope = ctx.getString('scope')?.toLowerCase() || 'session';
+
+    if (!name) {
+      const current = session ? session.pipeline.getPersona().name : sessions.resolvePersona(guildId, null, null).name;
+      const guildDefault = settings.get(guildId).persona;
+      const lines = [
+        `Current persona: ${current}${guildDefault ? ` (server default: ${guildDefault})` : ''}`,
+        ...personas.list().map((p) => `- ${p.name}${p.description ? `: ${p.description}` : ''}`),
+      ];
+      await ctx.reply(lines.join('\n'));
+      return;
+    }
+
+    const reset = name === 'reset';
+    if (!reset && !personas.get(name)) {
+      await ctx.reply(`No persona named "${name}". Available: ${personas.list().map((p) => p.name).join(', ')}`);
+      return;
+    }
+
+    if (scope === 'session') {
+      if (!session) {
+        await ctx.reply('No active voice session. Use !join first, or set a channel or server default.');
+        return;
+      }
+      session.persona = reset ? null : name;
+      sessions.applyPersona(guildId);
+      await ctx.reply(`Persona for this session: ${session.pipeline.getPersona().name}.`);
+      return;
+    }
+
+    if (scope !== 'channel' && scope !== 'guild') {
+      await ctx.reply('Usage: !persona <name|reset> [session|channel|guild]');
+      return;
+    }
+    if (!(await requireManager(ctx))) return;
+
+    if (scope === 'guild') {
+      settings.update(guildId, (s) => {
+        if (reset) delete s.persona;
+        else s.persona = name;
+      });
+      sessions.applyPersona(guildId);
+      await ctx.reply(reset ? 'Server default persona cleared.' : `Server default persona set to ${name}.`);
+      return;
+    }
+
+    // The channel being talked in, else the caller's
+    const channelId = session?.channelId ?? ctx.member?.voice?.channelId;
+    if (!channelId) {
+      await ctx.reply('Join a voice channel (or start a session) to set its default persona.');
+      return;
+    }
+    settings.update(guildId, (s) => {
+      const channels = { ...s.channelPersonas };
+      if (reset) delete channels[channelId];
+      else channels[channelId] = name;
+      s.channelPersonas = channels;
+    });
+    sessions.applyPersona(guildId);
+    await ctx.reply(reset ? `Default persona for <#${channelId}> cleared.` : `Default persona for <#${channelId}> set to ${name}.`);
+  });
+
+  dc.onCommand('language', async (ctx) => {
+    const userId = ctx.user.id;
+    const value = ctx.getString('language')?.trim().toLowerCase();
+
+    if (!value) {
+      const pinned = users.get(userId).language;
+      const current = ctx.guild ? sessions.get(ctx.guild.id)?.pipeline.getLanguage(userId) : undefined;
+      const voices = Array.from(LANGUAGE_VOICES.keys()).map((code) => `${languageName(code)} (${code})`);
+      await ctx.reply([
+        `Pinned language: ${pinned === AUTO_LANGUAGE ? 'auto-detect' : pinned ? `${languageName(pinned)} (${pinned})` : 'none (server default)'}`,
+        `Heard as: ${current ? `${languageName(current)} (${current})` : 'not known yet'}`,
+        `Languages with their own voice: ${voices.join(', ') || 'none'}`,
+      ].join('\n'));
+      return;
+    }
+
+    let language: string | null = null;
+    if (value === AUTO_LANGUAGE) {
+      language = AUTO_LANGUAGE;
+    } else if (value !== 'reset') {
+      language = normalizeLanguage(value);
+      if (!language) {
+        await ctx.reply(`"${value}" is not a language code I know. Try one like es, de or pt-BR.`);
+        return;
+      }
+    }
+
+    users.update(userId, (s) => {
+      if (language) s.language = language;
+      else delete s.language;
+    });
+    await sessions.applyLanguage(userId);
+    await ctx.reply(
+      !language
+        ? 'Language cleared; the server default is used.'
+        : language === AUTO_LANGUAGE
+          ? "I'll detect the language you speak."
+          : `I'll listen for ${languageName(language)} and reply in it.`
+    );
+  });
+
+  dc.onCommand('quota', async (ctx) => {
+    if (!ctx.guild) {
+      await ctx.reply('This command only works in a server.', { ephemeral: true });
+      return;
+    }
+    const guildId = ctx.guild.id;
+
+    const setting = ctx.getString('setting')?.toLowerCase();
+    if (!setting) {
+      const lines = [describeQuotas(settings.get(guildId).quotas ?? {}, usage, guildId, ctx.user.id)];
+      const restrictions = sessions.getQuotaEnforcer(guildId)?.getRestrictions() ?? [];
+      if (restrictions.length) {
+        lines.push(`Over budget: ${restrictions.map(({ userId, action }) => `${userId ? `<@${userId}>` : 'server'} (${action})`).join(', ')}`);
+      }
+      await ctx.reply(lines.join('\n'));
+      return;
+    }
+    if (!(await requireManager(ctx))) return;
+
+    const quotas: QuotaSettings = { ...settings.get(guildId).quotas };
+    if (setting === 'reset') {
+      delete quotas.limits;
+      delete quotas.warnAt;
+      delete quotas.action;
+    } else {
+      const error = applyQuotaSetting(quotas, setting, ctx.getString('value')?.trim() ?? '');
+      if (error) {
+        await ctx.reply(error);
+        return;
+      }
+    }
+
+    settings.update(guildId, (s) => {
+      if (Object.keys(quotas).length) s.quotas = quotas;
+      else delete s.quotas;
+    });
+    await sessions.getQuotaEnforcer(guildId)?.check();
+    await ctx.reply(describeQuotas(quotas, usage, guildId, ctx.user.id));
+  });
+
+  dc.onCommand('usage', async (ctx) => {
+    if (!ctx.guild) {
+      await ctx.reply('This command only works in a server.', { ephemeral: true });
+      return;
+    }
+    if (!(await requireManager(ctx))) return;
+    const guild = ctx.guild;
+
+    const period = ctx.getString('period')?.toLowerCase() === 'month' ? 'monthly' : 'daily';
+    const from = periodStart(period);
+    const filter = { guildId: guild.id, from };
+
+    if (ctx.getString('format')?.toLowerCase() === 'csv') {
+      await ctx.reply(`Usage since ${from} in the Deepgram usage report format.`, {
+        files: [{ name: `usage-${guild.id}-${from}-${usageDay()}.csv`, data: Buffer.from(usage.toCsv(filter)) }],
+      });
+      return;
+    }
+
+    const userIds = Array.from(new Set(usage.getRecords(filter).map(({ userId }) => userId)));
+    const byUser = userIds
+      .map((userId) => ({ userId, totals: usage.getTotals({ ...filter, userId }) }))
+      .sort((a, b) => estimateCost(b.totals) - estimateCost(a.totals));
+    const lines = [
+      `Usage ${period === 'daily' ? 'today' : 'this month'} (since ${from}, UTC)`,
+      `Server: ${describeUsage(usage.getTotals(filter))}`,
+      ...byUser.slice(0, 10).map(({ userId, totals }) => {
+        const name = guild.members.cache.get(userId)?.displayName ?? userId;
+        return `- ${name}: ${describeUsage(totals)}`;
+      }),
+    ];
+    await ctx.reply(lines.join('\n'));
+  });
+
+  dc.onCommand('debug', async (ctx) => {
+    const target = ctx.getString('target') || 'pipeline';
+    const session = await requireSession(sessions, ctx);
+    if (!session) return;
+
+    await ctx.reply(describeDebugTarget(session, target));
+  });
+}
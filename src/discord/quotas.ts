@@ -0,0 +1,129 @@
+import { GuildSettingsStore } from './guild-settings';
+import { VoiceSession } from './sessions';
+import {
+  checkQuotas,
+  DEFAULT_QUOTA_ACTION,
+  DEFAULT_WARN_PERCENT,
+  formatAmount,
+  QuotaAction,
+  QuotaStatus,
+} from '../voice/quota';
+import { UsageMeter } from '../voice/usage';
+import { logger } from '../utils/logger';
+
+const CHECK_INTERVAL_MS = Number(process.env.QUOTA_CHECK_INTERVAL_MS) || 15000;
+
+/**
+ * Checks one session's usage against its guild's limits: warns once per
+ * period as a limit gets close, and restricts the guild or user once it is
+ * reached until the period rolls over or the limit is raised
+ */
+export class QuotaEnforcer {
+  private session: VoiceSession;
+  private settings: GuildSettingsStore;
+  private usage: UsageMeter;
+  private timer: NodeJS.Timeout | null = null;
+  /** Warnings already given, so each is given once per period */
+  private warned: Set<string> = new Set();
+  /** Restrictions in force, by user id; '' is the whole guild */
+  private restricted: Map<string, QuotaAction> = new Map();
+
+  constructor(session: VoiceSession, settings: GuildSettingsStore, usage: UsageMeter) {
+    this.session = session;
+    this.settings = settings;
+    this.usage = usage;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.check(), CHECK_INTERVAL_MS);
+    void this.check();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Users and the guild currently over a limit, and what was done about it
+   */
+  getRestrictions(): Array<{ userId: string | null; action: QuotaAction }> {
+    return Array.from(this.restricted.entries()).map(([key, action]) => ({ userId: key || null, action }));
+  }
+
+  /**
+   * Compare usage with the limits now, e.g. right after they were changed
+   */
+  async check(now = new Date()): Promise<QuotaStatus[]> {
+    const { guildId, pipeline, voice } = this.session;
+    const quotas = this.settings.get(guildId).quotas ?? {};
+    const warnAt = (quotas.warnAt ?? DEFAULT_WARN_PERCENT) / 100;
+    const action = quotas.action ?? DEFAULT_QUOTA_ACTION;
+    const statuses = checkQuotas(this.usage, guildId, quotas, pipeline.getSpeakers().map(({ userId }) => userId), now);
+
+    const exceeded = new Map<string, QuotaStatus>();
+    for (const status of statuses) {
+      const key = status.userId ?? '';
+      if (status.used >= status.limit) {
+        if (!exceeded.has(key)) exceeded.set(key, status);
+        continue;
+      }
+      const warning = `${key}:${status.period}:${status.metric}:${status.periodStart}`;
+      if (status.used >= status.limit * warnAt && !this.warned.has(warning)) {
+        this.warned.add(warning);
+        await this.notify(
+          `Heads up: ${this.describeTarget(status.userId)} used ${Math.floor((status.used / status.limit) * 100)}% of the ` +
+            `${status.period} budget (${formatAmount(status.metric, status.used)} of ${formatAmount(status.metric, status.limit)}).`
+        );
+      }
+    }
+
+    for (const [key, status] of exceeded) {
+      if (this.restricted.get(key) === action) continue;
+      this.restricted.set(key, action);
+      voice.setQuotaAction(key || null, action);
+      logger.warn(`Quota reached in guild ${guildId} for ${key || 'the guild'}: ${status.period} ${status.metric}; ${action}`);
+      await this.notify(
+        `${this.describeTarget(status.userId)} reached the ${status.period} ${status.metric} budget ` +
+          `(${formatAmount(status.metric, status.limit)}). ` +
+          (action === 'pause' ? "I'll stop listening until it resets." : "I'll reply in text instead of speaking until it resets.")
+      );
+    }
+
+    const checked = new Set(statuses.map(({ userId }) => userId ?? ''));
+    const hasUserLimits = (quotas.limits ?? []).some(({ scope }) => scope === 'user');
+    for (const key of Array.from(this.restricted.keys())) {
+      if (exceeded.has(key)) continue;
+      // Someone who left stays restricted until they are back to be checked
+      if (key && hasUserLimits && !checked.has(key)) continue;
+      this.restricted.delete(key);
+      voice.setQuotaAction(key || null, null);
+      logger.info(`Quota restriction lifted in guild ${guildId} for ${key || 'the guild'}`);
+      await this.notify(`${this.describeTarget(key || null)} is back under budget.`);
+    }
+
+    return statuses;
+  }
+
+  private describeTarget(userId: string | null): string {
+    if (!userId) return 'This server';
+    return this.session.pipeline.getSpeakers().find((s) => s.userId === userId)?.displayName ?? `<@${userId}>`;
+  }
+
+  /**
+   * Post in the session's text channel, or say it when there is none
+   */
+  private async notify(message: string): Promise<void> {
+    const channel = this.session.textChannel;
+    try {
+      if (channel?.isSendable()) {
+        await channel.send({ content: message, allowedMentions: { parse: [] } });
+      } else {
+        void this.session.voice.speak(message, 'system');
+      }
+    } catch (err) {
+      logger.error(`Failed to send quota notice: ${err}`);
+    }
+  }
+}
@@ -11,15 +11,32 @@ export interface AudioReceiver {
 export class VoiceReceiver {
   private connection: VoiceConnection;
   private activeStreams: Map<string, Readable> = new Map();
+  private subscriptions: Map<string, (audio: Buffer) => void> = new Map();
 
   constructor(connection: VoiceConnection) {
     this.connection = connection;
+
+    // Discord ends each user stream after a short silence; resubscribe when they speak again
+    this.connection.receiver?.speaking.on('start', (userId: string) => {
+      const callback = this.subscriptions.get(userId);
+      if (callback && !this.activeStreams.has(userId)) {
+        this.subscribeToUser(userId, callback);
+      }
+    });
   }
 
   /**
    * Start receiving audio from a specific user
    */
   startReceivingUser(userId: string, callback: (audio: Buffer) => void): void {
+    this.subscriptions.set(userId, callback);
+    if (!this.activeStreams.has(userId)) {
+      this.subscribeToUser(userId, callback);
+    }
+    logger.info(`Started receiving audio from user ${userId}`);
+  }
+
+  private subscribeToUser(userId: string, callback: (audio: Buffer) => void): void {
     try {
       const receiver = this.connection.receiver;
       
@@ -70,16 +87,21 @@ export class VoiceReceiver {
 
       // Handle stream end
       pipeline.on('end', () => {
-        logger.info(`Audio stream ended for user ${userId}`);
-        this.activeStreams.delete(userId);
+        logger.debug(`Audio stream ended for user ${userId}`);
+        if (this.activeStreams.get(userId) === pipeline) {
+          this.activeStreams.delete(userId);
+        }
       });
 
       pipeline.on('error', (err) => {
         logger.error(`Audio stream error for user ${userId}: ${err}`);
-        this.activeStreams.delete(userId);
+        if (this.activeStreams.get(userId) === pipeline) {
+          this.activeStreams.delete(userId);
+        }
       });
 
-      logger.info(`Started receiving audio from user ${userId}`);
+      // Drain the transform so 'end' fires once the subscription closes
+      pipeline.resume();
     } catch (err) {
       logger.error(`Failed to start receiving from user ${userId}: ${err}`);
     }
@@ -93,25 +115,48 @@ export class VoiceReceiver {
     if (stream) {
       stream.destroy();
       this.activeStreams.delete(userId);
+    }
+    if (this.subscriptions.delete(userId)) {
       logger.info(`Stopped receiving audio from user ${userId}`);
     }
   }
 
+  /**
+   * Drop open streams (e.g. after a reconnect) but keep the subscriptions;
+   * each user is resubscribed the next time they speak
+   */
+  resetStreams(): void {
+    for (const stream of this.activeStreams.values()) {
+      stream.destroy();
+    }
+    this.activeStreams.clear();
+  }
+
   /**
    * Stop receiving all audio
    */
   stopAll(): void {
-    for (const [userId, stream] of this.activeStreams) {
+    for (const stream of this.activeStreams.values()) {
       stream.destroy();
+    }
+    for (const userId of this.subscriptions.keys()) {
       logger.info(`Stopped receiving audio from user ${userId}`);
     }
     this.activeStreams.clear();
+    this.subscriptions.clear();
   }
 
   /**
-   * Get list of users currently being received from
+   * Get list of users currently being listened to
    */
   getActiveUsers(): string[] {
+    return Array.from(this.subscriptions.keys());
+  }
+
+  /**
+   * Get list of users with an open audio stream right now (i.e. speaking)
+   */
+  getStreamingUsers(): string[] {
     return Array.from(this.activeStreams.keys());
   }
 }
\ No newline at end of file
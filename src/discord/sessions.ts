@@ -0,0 +1,430 @@
+import { TextBasedChannel } from 'discord.js';
+import {
+  entersState,
+  VoiceConnection,
+  VoiceConnectionDisconnectReason,
+  VoiceConnectionStatus,
+} from '@discordjs/voice';
+import { DiscordClient } from './client';
+import { VoiceHandler } from './voice';
+import { GuildSettingsStore } from './guild-settings';
+import { createSessionTools } from './tools';
+import { QuotaEnforcer } from './quotas';
+import { UserSettingsStore } from './user-settings';
+import { VoicePipeline } from '../voice/pipeline';
+import { providerRegistry } from '../voice/providers/registry';
+import { ChatModelProvider } from '../voice/providers/types';
+import { Persona, PersonaLibrary } from '../voice/persona';
+import { UsageMeter } from '../voice/usage';
+import { logger } from '../utils/logger';
+import { dataPath, readJsonFile, writeJsonFile } from '../utils/storage';
+
+const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_DELAY_MS = 1000;
+const KICKED_CLOSE_CODE = 4014; // Discord closes the voice socket with this when the bot is removed
+
+export interface VoiceSession {
+  guildId: string;
+  channelId: string;
+  isStage: boolean;
+  connection: VoiceConnection;
+  pipeline: VoicePipeline;
+  voice: VoiceHandler;
+  /** Text channel the session was started from */
+  textChannel: TextBasedChannel | null;
+  startedAt: number;
+  /** Persona chosen for this session only, over the channel and guild defaults */
+  persona: string | null;
+}
+
+export interface StartSessionOptions {
+  isStage: boolean;
+  textChannel?: TextBasedChannel | null;
+}
+
+interface PersistedSession {
+  guildId: string;
+  channelId: string;
+  isStage: boolean;
+  textChannelId: string | null;
+}
+
+/**
+ * Owns one voice session (connection, handler, pipeline) per guild
+ */
+export class SessionManager {
+  private dc: DiscordClient;
+  private settings: GuildSettingsStore;
+  private personas: PersonaLibrary;
+  private usage: UsageMeter;
+  private users: UserSettingsStore;
+  private sessions: Map<string, VoiceSession> = new Map();
+  private quotas: Map<string, QuotaEnforcer> = new Map();
+  private reconnectAttempts: Map<string, number> = new Map();
+  /** Guilds with a rejoin under way, so one drop is not retried twice */
+  private reconnecting: Set<string> = new Set();
+  private stateFile = process.env.SESSION_STATE_FILE || dataPath('sessions.json');
+  /** Saved sessions not rejoined (yet), kept on disk so a later restart tries again */
+  private unrestored: PersistedSession[] = [];
+  private restoring = false;
+
+  constructor(
+    dc: DiscordClient,
+    settings: GuildSettingsStore,
+    personas: PersonaLibrary,
+    usage: UsageMeter,
+    users: UserSettingsStore
+  ) {
+    this.dc = dc;
+    this.settings = settings;
+    this.personas = personas;
+    this.usage = usage;
+    this.users = users;
+  }
+
+  get(guildId: string): VoiceSession | undefined {
+    return this.sessions.get(guildId);
+  }
+
+  getAll(): VoiceSession[] {
+    return Array.from(this.sessions.values());
+  }
+
+  /**
+   * Join a channel and start listening. Replaces any existing session in the same guild.
+   */
+  async start(guildId: string, channelId: string, options: StartSessionOptions): Promise<VoiceSession> {
+    if (this.sessions.has(guildId)) {
+      await this.end(guildId);
+    }
+    // A session started here replaces whatever was saved for the guild
+    this.unrestored = this.unrestored.filter((entry) => entry.guildId !== guildId);
+
+    const connection = options.isStage
+      ? await this.dc.joinStageChannel(channelId)
+      : await this.dc.joinVoiceChannel(channelId);
+
+    const pipeline = new VoicePipeline({ chat: this.createChatModel(guildId) });
+    pipeline.setPersona(this.resolvePersona(guildId, channelId, null));
+    pipeline.setUsageMeter(this.usage, guildId);
+    const voice = new VoiceHandler(pipeline);
+    voice.setTextChannel(options.textChannel ?? null);
+    voice.setLanguageLookup((userId) => this.users.get(userId).language);
+
+    const session: VoiceSession = {
+      guildId,
+      channelId,
+      isStage: options.isStage,
+      connection,
+      pipeline,
+      voice,
+      textChannel: options.textChannel ?? null,
+      startedAt: Date.now(),
+      persona: null,
+    };
+    for (const tool of createSessionTools(session, this.dc.getClient())) {
+      pipeline.getTools().register(tool);
+    }
+    this.sessions.set(guildId, session);
+
+    try {
+      await voice.attach(connection, this.dc.getClient());
+    } catch (err) {
+      await this.end(guildId);
+      throw err;
+    }
+
+    const quota = new QuotaEnforcer(session, this.settings, this.usage);
+    this.quotas.set(guildId, quota);
+    quota.start();
+
+    this.watchConnection(session);
+    this.persist();
+    logger.info(`Started voice session in guild ${guildId} (channel ${channelId})`);
+    return session;
+  }
+
+  /**
+   * Stop listening and leave the voice channel for a guild. With `forget`
+   * unset the session stays on disk and is rejoined on the next start.
+   */
+  async end(guildId: string, forget = true): Promise<boolean> {
+    const session = this.sessions.get(guildId);
+    if (!session) return false;
+
+    this.sessions.delete(guildId);
+    this.reconnectAttempts.delete(guildId);
+    this.quotas.get(guildId)?.stop();
+    this.quotas.delete(guildId);
+    try {
+      await session.voice.stopListening();
+    } catch (err) {
+      logger.error(`Failed to stop listening in guild ${guildId}: ${err}`);
+    }
+    await this.dc.leaveVoiceChannel(guildId);
+
+    if (forget) this.persist();
+    logger.info(`Ended voice session in guild ${guildId}`);
+    return true;
+  }
+
+  /**
+   * Chat model for a guild: the live session's, or a new one built from the guild's settings
+   */
+  getChatModel(guildId: string): ChatModelProvider {
+    return this.sessions.get(guildId)?.pipeline.getChatProvider() ?? this.createChatModel(guildId);
+  }
+
+  /**
+   * Rebuild the chat model of a live session after the guild's settings changed
+   */
+  applyChatSettings(guildId: string): void {
+    const session = this.sessions.get(guildId);
+    if (session) {
+      session.pipeline.setChatProvider(this.createChatModel(guildId));
+    }
+  }
+
+  /**
+   * Persona for a voice channel: the session's choice, then the channel's
+   * default, then the guild's, then the library default
+   */
+  resolvePersona(guildId: string, channelId: string | null, sessionPersona: string | null): Persona {
+    const settings = this.settings.get(guildId);
+    const candidates = [sessionPersona, channelId ? settings.channelPersonas?.[channelId] : undefined, settings.persona];
+    for (const name of candidates) {
+      if (!name) continue;
+      const persona = this.personas.get(name);
+      if (persona) return persona;
+      logger.warn(`Persona "${name}" is not defined, ignoring it in guild ${guildId}`);
+    }
+    return this.personas.getDefault();
+  }
+
+  /**
+   * Re-resolve a live session's persona after its choice or the defaults changed
+   */
+  applyPersona(guildId: string): void {
+    const session = this.sessions.get(guildId);
+    if (session) {
+      session.pipeline.setPersona(this.resolvePersona(guildId, session.channelId, session.persona));
+    }
+  }
+
+  /**
+   * Reopen a user's STT streams in every live session after their language changed
+   */
+  async applyLanguage(userId: string): Promise<void> {
+    const language = this.users.get(userId).language ?? null;
+    for (const session of this.sessions.values()) {
+      await session.pipeline.setSpeakerLanguage(userId, language);
+    }
+  }
+
+  /**
+   * Quota checks for a live session
+   */
+  getQuotaEnforcer(guildId: string): QuotaEnforcer | undefined {
+    return this.quotas.get(guildId);
+  }
+
+  async endAll(): Promise<void> {
+    for (const guildId of Array.from(this.sessions.keys())) {
+      await this.end(guildId);
+    }
+  }
+
+  /**
+   * Leave every channel but remember them so they are rejoined after a restart
+   */
+  async shutdown(): Promise<void> {
+    for (const guildId of Array.from(this.sessions.keys())) {
+      await this.end(guildId, false);
+    }
+  }
+
+  /**
+   * Rejoin the channels that were active when the bot last stopped
+   */
+  async restore(): Promise<void> {
+    const saved = readJsonFile<PersistedSession[]>(this.stateFile, []);
+    if (saved.length === 0) return;
+
+    logger.info(`Restoring ${saved.length} voice session(s)`);
+    const client = this.dc.getClient();
+    // Until every entry has been tried, the file is left as it was so nothing is lost on a crash
+    this.unrestored = [...saved];
+    this.restoring = true;
+
+    try {
+      for (const entry of saved) {
+        const textChannel = entry.textChannelId
+          ? await client.channels.fetch(entry.textChannelId).catch(() => null)
+          : null;
+        const reportTo = textChannel?.isTextBased() ? textChannel : null;
+
+        try {
+          const session = await this.start(entry.guildId, entry.channelId, {
+            isStage: entry.isStage,
+            textChannel: reportTo,
+          });
+          if (entry.isStage) {
+            await this.dc.requestSpeakerPermission(entry.guildId);
+          }
+          await session.voice.startListening();
+          await this.notify(session, `Rejoined <#${entry.channelId}> after a restart.`);
+        } catch (e: any) {
+          this.unrestored.push(entry);
+          logger.error(`Failed to restore session in guild ${entry.guildId}: ${e?.message || e}`);
+          if (reportTo?.isSendable()) {
+            await reportTo.send(`Could not rejoin <#${entry.channelId}> after a restart: ${e?.message || 'Unknown error'}`).catch(() => {});
+          }
+        }
+      }
+    } finally {
+      this.restoring = false;
+      this.persist();
+    }
+  }
+
+  private createChatModel(guildId: string): ChatModelProvider {
+    return providerRegistry.createChatModelWith(this.settings.get(guildId).chat);
+  }
+
+  private persist(): void {
+    if (this.restoring) return;
+    const state: PersistedSession[] = this.getAll().map((s) => ({
+      guildId: s.guildId,
+      channelId: s.channelId,
+      isStage: s.isStage,
+      textChannelId: s.textChannel?.id ?? null,
+    }));
+    state.push(...this.unrestored.filter((entry) => !this.sessions.has(entry.guildId)));
+    writeJsonFile(this.stateFile, state);
+  }
+
+  private isCurrent(session: VoiceSession): boolean {
+    return this.sessions.get(session.guildId) === session;
+  }
+
+  /**
+   * Report to the text channel that started the session
+   */
+  private async notify(session: VoiceSession, message: string): Promise<void> {
+    const channel = session.textChannel;
+    if (!channel?.isSendable()) return;
+    try {
+      await channel.send(message);
+    } catch (err) {
+      logger.error(`Failed to notify guild ${session.guildId}: ${err}`);
+    }
+  }
+
+  private watchConnection(session: VoiceSession): void {
+    const { connection, guildId } = session;
+
+    connection.on(VoiceConnectionStatus.Disconnected, async (_oldState, newState) => {
+      if (!this.isCurrent(session)) return;
+
+      try {
+        // Region moves and channel drags reconnect on their own
+        await Promise.race([
+          entersState(connection, VoiceConnectionStatus.Signalling, 5_000),
+          entersState(connection, VoiceConnectionStatus.Connecting, 5_000),
+        ]);
+      } catch {
+        if (!this.isCurrent(session)) return;
+
+        if (
+          newState.reason === VoiceConnectionDisconnectReason.WebSocketClose &&
+          newState.closeCode === KICKED_CLOSE_CODE
+        ) {
+          logger.warn(`Removed from voice channel in guild ${guildId}`);
+          await this.notify(session, 'I was disconnected from the voice channel, so the session has ended.');
+          await this.end(guildId);
+          return;
+        }
+
+        await this.reconnect(session);
+      }
+    });
+
+    connection.on(VoiceConnectionStatus.Signalling, async () => {
+      try {
+        await entersState(connection, VoiceConnectionStatus.Ready, 20_000);
+      } catch {
+        if (this.isCurrent(session) && connection.state.status !== VoiceConnectionStatus.Destroyed) {
+          await this.reconnect(session);
+        }
+      }
+    });
+
+    connection.on(VoiceConnectionStatus.Ready, () => {
+      if (!this.isCurrent(session)) return;
+
+      if (this.reconnectAttempts.has(guildId)) {
+        logger.info(`Voice connection restored in guild ${guildId}`);
+        this.reconnectAttempts.delete(guildId);
+      }
+
+      const channelId = connection.joinConfig.channelId;
+      if (channelId && channelId !== session.channelId) {
+        logger.info(`Moved to channel ${channelId} in guild ${guildId}`);
+        session.channelId = channelId;
+        this.applyPersona(guildId);
+        this.persist();
+      }
+
+      session.voice.reattach();
+    });
+
+    connection.on(VoiceConnectionStatus.Destroyed, async () => {
+      // Sessions ended on purpose are already gone from the map
+      if (!this.isCurrent(session)) return;
+
+      logger.warn(`Voice connection destroyed in guild ${guildId}`);
+      await this.notify(session, 'The voice connection was closed, so the session has ended.');
+      await this.end(guildId);
+    });
+  }
+
+  /**
+   * Rejoin after a drop, backing off between attempts. Both the Disconnected
+   * and Signalling timeouts can fire for one drop; the second call is skipped.
+   */
+  private async reconnect(session: VoiceSession): Promise<void> {
+    const { guildId } = session;
+    if (this.reconnecting.has(guildId)) return;
+
+    this.reconnecting.add(guildId);
+    try {
+      await this.rejoin(session);
+    } finally {
+      this.reconnecting.delete(guildId);
+    }
+  }
+
+  private async rejoin(session: VoiceSession): Promise<void> {
+    const { connection, guildId } = session;
+    const attempts = (this.reconnectAttempts.get(guildId) ?? 0) + 1;
+
+    if (attempts > MAX_RECONNECT_ATTEMPTS) {
+      logger.error(`Max voice reconnection attempts reached in guild ${guildId}`);
+      await this.notify(session, `Lost the voice connection and could not reconnect after ${MAX_RECONNECT_ATTEMPTS} attempts.`);
+      await this.end(guildId);
+      return;
+    }
+
+    this.reconnectAttempts.set(guildId, attempts);
+    const delay = RECONNECT_DELAY_MS * Math.pow(2, attempts - 1);
+    logger.info(`Rejoining voice in guild ${guildId} in ${delay}ms (attempt ${attempts})`);
+    if (attempts === 1) {
+      await this.notify(session, 'Voice connection lost, trying to reconnect...');
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, delay));
+    if (!this.isCurrent(session) || connection.state.status === VoiceConnectionStatus.Destroyed) return;
+
+    connection.rejoin();
+  }
+}
@@ -0,0 +1,375 @@
+import {
+  AudioPlayer,
+  AudioPlayerStatus,
+  AudioResource,
+  createAudioPlayer,
+  createAudioResource,
+  NoSubscriberBehavior,
+  StreamType,
+} from '@discordjs/voice';
+import { PassThrough, Readable } from 'stream';
+import prism from 'prism-media';
+import { logger } from '../utils/logger';
+
+const FADE_OUT_MS = 250;
+const PCM_BYTES_PER_MS = 32; // 16kHz mono linear16
+
+/** Higher priorities jump ahead in the queue but never cut off what is playing */
+export type SpeechPriority = 'system' | 'reply' | 'say';
+
+const PRIORITY_RANK: Record<SpeechPriority, number> = { system: 0, reply: 1, say: 2 };
+
+export type SpeechOutcome = 'finished' | 'skipped' | 'cancelled' | 'interrupted' | 'failed';
+
+export interface SpeechItem {
+  id: number;
+  text: string;
+  priority: SpeechPriority;
+  enqueuedAt: number;
+  /** Conversational turn this speech answers, for latency tracing */
+  turnId?: string;
+  /** Who the speech is for, for usage metering */
+  userId?: string;
+  /** When the first synthesized audio arrived */
+  firstAudioAt?: number;
+}
+
+export interface InterruptedSpeech {
+  text: string;
+  /** Approximate part of the text that was heard before the cut */
+  spokenText: string;
+}
+
+interface SpeechRequest extends SpeechItem {
+  source: Readable | null;
+  /** PCM from the synthesizer, buffered until this item plays */
+  audio: PassThrough;
+  /** Resolves once the first chunk arrives, or false if synthesis produced nothing */
+  hasAudio: Promise<boolean>;
+  receivedBytes: number;
+  resource: AudioResource | null;
+  outcome: SpeechOutcome | null;
+  resolve: (outcome: SpeechOutcome) => void;
+}
+
+/**
+ * Plays synthesized speech one item at a time from a priority queue.
+ * Synthesis starts on enqueue so the next item is ready when the current one
+ * ends, and playback starts as soon as the first audio chunk arrives.
+ */
+export class SpeechPlayer {
+  private player: AudioPlayer;
+  private synthesize: (text: string, item: SpeechItem) => Readable;
+  private queue: SpeechRequest[] = [];
+  private current: SpeechRequest | null = null;
+  private paused = false;
+  private nextId = 1;
+  private startCallbacks: Array<(item: SpeechItem) => void> = [];
+  private endCallbacks: Array<(item: SpeechItem, outcome: SpeechOutcome) => void> = [];
+
+  constructor(synthesize: (text: string, item: SpeechItem) => Readable) {
+    this.synthesize = synthesize;
+    this.player = createAudioPlayer({ behaviors: { noSubscriber: NoSubscriberBehavior.Play } });
+
+    this.player.on(AudioPlayerStatus.Idle, () => {
+      logger.debug('Audio player idle');
+      const item = this.current;
+      if (item?.resource) {
+        this.finish(item, item.outcome ?? 'finished');
+      }
+    });
+
+    this.player.on('error', (err) => {
+      logger.error(`Audio player error: ${err}`);
+      if (this.current) this.current.outcome = 'failed';
+    });
+  }
+
+  getPlayer(): AudioPlayer {
+    return this.player;
+  }
+
+  /**
+   * Queue text for playback; resolves once it has finished playing or was dropped
+   */
+  enqueue(text: string, priority: SpeechPriority, turnId?: string, userId?: string): Promise<SpeechOutcome> {
+    return new Promise((resolve) => {
+      const request: SpeechRequest = {
+        id: this.nextId++,
+        text,
+        priority,
+        enqueuedAt: Date.now(),
+        turnId,
+        userId,
+        source: null,
+        audio: new PassThrough(),
+        hasAudio: Promise.resolve(false),
+        receivedBytes: 0,
+        resource: null,
+        outcome: null,
+        resolve,
+      };
+      request.hasAudio = this.startSynthesis(request);
+      // Handled again when played; avoid unhandled rejections while queued
+      request.hasAudio.catch(() => {});
+
+      const index = this.queue.findIndex((q) => PRIORITY_RANK[q.priority] > PRIORITY_RANK[priority]);
+      this.queue.splice(index === -1 ? this.queue.length : index, 0, request);
+
+      void this.playNext();
+    });
+  }
+
+  onPlaybackStart(callback: (item: SpeechItem) => void): void {
+    this.startCallbacks.push(callback);
+  }
+
+  onPlaybackEnd(callback: (item: SpeechItem, outcome: SpeechOutcome) => void): void {
+    this.endCallbacks.push(callback);
+  }
+
+  isSpeaking(): boolean {
+    return this.player.state.status === AudioPlayerStatus.Playing;
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  getCurrent(): SpeechItem | null {
+    return this.current ? toItem(this.current) : null;
+  }
+
+  getQueue(): SpeechItem[] {
+    return this.queue.map(toItem);
+  }
+
+  pause(): boolean {
+    if (this.paused) return false;
+    this.paused = true;
+    this.player.pause(true);
+    return true;
+  }
+
+  resume(): boolean {
+    if (!this.paused) return false;
+    this.paused = false;
+    this.player.unpause();
+    void this.playNext();
+    return true;
+  }
+
+  /**
+   * Drop what is playing and move on to the next item
+   */
+  skip(): boolean {
+    if (!this.current) return false;
+    this.endCurrent('skipped', false);
+    return true;
+  }
+
+  /**
+   * Drop what is playing and everything queued. Returns the number of items dropped.
+   */
+  stop(): number {
+    const dropped = this.cancelQueued() + (this.current ? 1 : 0);
+    if (this.current) this.endCurrent('cancelled', false);
+    return dropped;
+  }
+
+  /**
+   * Drop the queued sentences of a reply, e.g. once a newer reply supersedes
+   * it. Returns the number of items dropped.
+   */
+  cancelTurn(turnId: string): number {
+    const dropped = this.queue.filter((item) => item.priority === 'reply' && item.turnId === turnId);
+    this.queue = this.queue.filter((item) => !dropped.includes(item));
+    for (const item of dropped) {
+      this.finish(item, 'cancelled');
+    }
+    return dropped.length;
+  }
+
+  /**
+   * Barge-in: fade out the current item and cancel the queue
+   */
+  interrupt(): InterruptedSpeech | null {
+    this.cancelQueued();
+
+    const item = this.current;
+    if (!item) return null;
+
+    let spokenText = '';
+    if (item.resource) {
+      const durationMs = item.receivedBytes / PCM_BYTES_PER_MS;
+      const heardRatio = Math.min(1, item.resource.playbackDuration / Math.max(durationMs, 1));
+      spokenText = item.text.slice(0, Math.floor(item.text.length * heardRatio));
+      if (heardRatio < 1 && spokenText.includes(' ')) {
+        spokenText = spokenText.slice(0, spokenText.lastIndexOf(' '));
+      }
+    }
+
+    this.endCurrent('interrupted', true);
+    return { text: item.text, spokenText };
+  }
+
+  private startSynthesis(request: SpeechRequest): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      const source = this.synthesize(request.text, toItem(request));
+      request.source = source;
+
+      source.on('data', (chunk: Buffer) => {
+        request.firstAudioAt ??= Date.now();
+        request.receivedBytes += chunk.length;
+        request.audio.write(chunk);
+        resolve(true);
+      });
+      source.once('end', () => {
+        request.audio.end();
+        resolve(false);
+      });
+      source.once('error', (err) => {
+        // Cut short mid-playback; whatever already arrived still plays
+        if (request.resource) request.outcome = 'failed';
+        request.audio.end();
+        reject(err);
+      });
+    });
+  }
+
+  private cancelQueued(): number {
+    const dropped = this.queue.splice(0);
+    for (const item of dropped) {
+      this.finish(item, 'cancelled');
+    }
+    return dropped.length;
+  }
+
+  private endCurrent(outcome: SpeechOutcome, fade: boolean): void {
+    const item = this.current;
+    if (!item) return;
+
+    if (!item.resource) {
+      // Still synthesizing; playNext drops it once the audio arrives
+      this.finish(item, outcome);
+      return;
+    }
+
+    item.outcome = outcome;
+    if (fade) {
+      this.fadeOutAndStop(item.resource);
+    } else {
+      this.player.stop(true);
+    }
+  }
+
+  private async playNext(): Promise<void> {
+    if (this.current || this.paused) return;
+
+    const item = this.queue.shift();
+    if (!item) return;
+    this.current = item;
+
+    try {
+      const hasAudio = await item.hasAudio;
+      if (this.current !== item) return;
+
+      if (!hasAudio) {
+        logger.warn('No audio data received from TTS');
+        this.finish(item, 'failed');
+        return;
+      }
+      // Paused while it was synthesizing: keep it first in line for resume
+      if (this.paused) {
+        this.current = null;
+        this.queue.unshift(item);
+        return;
+      }
+
+      item.resource = this.createResource(item.audio);
+      this.player.play(item.resource);
+      logger.info(`Speaking: "${item.text.substring(0, 50)}..."`);
+
+      for (const callback of this.startCallbacks) {
+        callback(toItem(item));
+      }
+    } catch (err) {
+      logger.error(`Failed to speak: ${err}`);
+      if (this.current === item) this.finish(item, 'failed');
+    }
+  }
+
+  private createResource(pcmStream: Readable): AudioResource {
+    // Encode PCM -> Opus (Discord expects Opus @ 48k)
+    const encoder = new prism.opus.Encoder({
+      rate: 48000,
+      channels: 1,
+      frameSize: 960,
+    });
+
+    // Resample 16k -> 48k mono using prism FFmpeg
+    const resampler = new prism.FFmpeg({
+      args: [
+        '-f', 's16le',
+        '-ar', '16000',
+        '-ac', '1',
+        '-i', 'pipe:0',
+        '-f', 's16le',
+        '-ar', '48000',
+        '-ac', '1',
+        'pipe:1',
+      ],
+    });
+
+    const opusStream = pcmStream.pipe(resampler).pipe(encoder);
+    return createAudioResource(opusStream, { inputType: StreamType.Opus, inlineVolume: true });
+  }
+
+  private fadeOutAndStop(resource: AudioResource): void {
+    const volume = resource.volume;
+    if (!volume) {
+      this.player.stop(true);
+      return;
+    }
+
+    const steps = 10;
+    let step = 0;
+    const timer = setInterval(() => {
+      step++;
+      volume.setVolume(Math.max(0, 1 - step / steps));
+      if (step >= steps) {
+        clearInterval(timer);
+        this.player.stop(true);
+      }
+    }, FADE_OUT_MS / steps);
+  }
+
+  private finish(item: SpeechRequest, outcome: SpeechOutcome): void {
+    if (this.current === item) {
+      this.current = null;
+    }
+    // Stops any synthesis still running for skipped or cancelled speech
+    item.source?.destroy();
+    item.resolve(outcome);
+
+    if (item.resource) {
+      for (const callback of this.endCallbacks) {
+        callback(toItem(item), outcome);
+      }
+    }
+
+    void this.playNext();
+  }
+}
+
+function toItem(request: SpeechRequest): SpeechItem {
+  return {
+    id: request.id,
+    text: request.text,
+    priority: request.priority,
+    enqueuedAt: request.enqueuedAt,
+    turnId: request.turnId,
+    userId: request.userId,
+    firstAudioAt: request.firstAudioAt,
+  };
+}
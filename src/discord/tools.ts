@@ -0,0 +1,59 @@
+import { Client } from 'discord.js';
+import { Tool } from '../voice/tools';
+import { VoiceSession } from './sessions';
+
+const MAX_POST_LENGTH = 2000; // Discord's message limit
+
+/**
+ * Tools bound to one voice session: who is there, and posting to the session's text channel
+ */
+export function createSessionTools(session: VoiceSession, client: Client): Tool[] {
+  const sessionInfo: Tool = {
+    name: 'get_session_info',
+    description: 'Get the voice channel and server names, who is in the channel, and how long the session has run.',
+    parameters: { type: 'object', properties: {} },
+    sideEffects: false,
+    async run() {
+      const guild = client.guilds.cache.get(session.guildId);
+      const channel = guild?.channels.cache.get(session.channelId);
+      const members = channel?.isVoiceBased()
+        ? channel.members.filter((m) => !m.user.bot).map((m) => m.displayName)
+        : [];
+      const minutes = Math.round((Date.now() - session.startedAt) / 60000);
+
+      return [
+        `Server: ${guild?.name ?? 'unknown'}`,
+        `Voice channel: ${channel?.name ?? 'unknown'}${session.isStage ? ' (stage)' : ''}`,
+        `In the channel: ${members.join(', ') || 'nobody else'}`,
+        `Session running for ${minutes} minute(s)`,
+        `Persona: ${session.pipeline.getPersona().name}`,
+      ].join('\n');
+    },
+  };
+
+  const postToTextChannel: Tool = {
+    name: 'post_to_text_channel',
+    description: 'Post a message in the text channel this voice session was started from, e.g. a link, list or summary the listeners asked for.',
+    parameters: {
+      type: 'object',
+      properties: {
+        message: { type: 'string', description: 'Text to post; Discord markdown is allowed' },
+      },
+      required: ['message'],
+    },
+    sideEffects: true,
+    async run(args) {
+      const message = typeof args.message === 'string' ? args.message.trim() : '';
+      if (!message) throw new Error('message is required');
+
+      const channel = session.textChannel;
+      if (!channel?.isSendable()) throw new Error('this session has no text channel to post in');
+
+      // Spoken requests should never be able to ping everyone
+      await channel.send({ content: message.slice(0, MAX_POST_LENGTH), allowedMentions: { parse: [] } });
+      return `Posted to #${'name' in channel ? channel.name : 'the text channel'}.`;
+    },
+  };
+
+  return [sessionInfo, postToTextChannel];
+}
@@ -0,0 +1,34 @@
+import { dataPath, readJsonFile, writeJsonFile } from '../utils/storage';
+
+export interface UserSettings {
+  /** Pinned STT language (BCP-47), or `auto` to detect it */
+  language?: string;
+}
+
+/**
+ * Per-user preferences that follow a user across servers and restarts
+ */
+export class UserSettingsStore {
+  private file: string;
+  private settings: Record<string, UserSettings>;
+
+  constructor(file = process.env.USER_SETTINGS_FILE || dataPath('users.json')) {
+    this.file = file;
+    this.settings = readJsonFile<Record<string, UserSettings>>(file, {});
+  }
+
+  get(userId: string): UserSettings {
+    return this.settings[userId] ?? {};
+  }
+
+  /**
+   * Change a user's settings in place and save them
+   */
+  update(userId: string, change: (settings: UserSettings) => void): UserSettings {
+    const settings = this.settings[userId] ?? {};
+    change(settings);
+    this.settings[userId] = settings;
+    writeJsonFile(this.file, this.settings);
+    return settings;
+  }
+}
@@ -1,44 +1,104 @@
-import { AudioPlayer, AudioPlayerStatus, createAudioPlayer, createAudioResource, NoSubscriberBehavior, StreamType, VoiceConnection } from '@discordjs/voice';
+import { VoiceConnection } from '@discordjs/voice';
 import { logger } from '../utils/logger';
-import { VoicePipeline } from '../voice/pipeline';
+import { Speaker, SpeakerTranscript, VoicePipeline } from '../voice/pipeline';
 import { VoiceReceiver } from './receiver';
-import { Readable } from 'stream';
-import prism from 'prism-media';
+import { BargeInDetector, BargeInSensitivity } from '../voice/barge-in';
+import { ResponsePolicy } from '../voice/response-policy';
+import { CaptionRelay } from './captions';
+import { LatencyTracker, TurnTrace } from '../voice/latency';
+import { PromptVariables } from '../voice/persona';
+import { QuotaAction } from '../voice/quota';
+import { SpeechOutcome, SpeechPlayer, SpeechPriority } from './speech-player';
+import { Client, Events, TextBasedChannel, VoiceBasedChannel, VoiceState } from 'discord.js';
+
+/** Wait after the last speaker's endpoint in case someone else's final result is still in flight */
+const TURN_GRACE_MS = 150;
+/** Take the turn anyway if no endpoint arrives, e.g. when the STT misses one */
+const TURN_TIMEOUT_MS = Number(process.env.TURN_TIMEOUT_MS) || 1500;
+const MAX_MESSAGE_LENGTH = 2000; // Discord's message limit
+
+/** What one speaker has said since the last turn */
+interface TranscriptBuffer {
+  speaker: Speaker;
+  text: string;
+  finalAt: number;
+  /** The STT has reported an endpoint or utterance end for this speaker */
+  complete: boolean;
+}
+
+/** A reply that is being generated and spoken one sentence at a time */
+interface ActiveReply {
+  controller: AbortController;
+  trace: TurnTrace;
+  sentences: string[];
+  heard: string[];
+  generating: boolean;
+  /** Set on barge-in: what was heard before the cut */
+  interruptedAfter: string | null;
+}
 
 export class VoiceHandler {
-  private player: AudioPlayer;
+  private speech: SpeechPlayer;
   private pipeline: VoicePipeline;
   private receiver: VoiceReceiver | null = null;
   private connection: VoiceConnection | null = null;
+  private client: Client | null = null;
+  private voiceStateListener: ((oldState: VoiceState, newState: VoiceState) => void) | null = null;
   private isProcessing = false;
-  private transcriptBuffer = '';
-  private silenceTimer: NodeJS.Timeout | null = null;
+  private transcriptBuffers: Map<string, TranscriptBuffer> = new Map();
+  private speechEndedAt: Map<string, number> = new Map();
+  private latency = new LatencyTracker();
+  private turnTimer: NodeJS.Timeout | null = null;
+  private bargeIn = new BargeInDetector();
+  private responsePolicy = new ResponsePolicy();
+  private captions: CaptionRelay | null = null;
+  private activeReply: ActiveReply | null = null;
+  private textChannel: TextBasedChannel | null = null;
+  /** Restrictions on users who are over quota; the '' key applies to everyone */
+  private quotaActions: Map<string, QuotaAction> = new Map();
+  private languageLookup: (userId: string) => string | undefined = () => undefined;
 
   constructor(pipeline?: VoicePipeline) {
-    this.player = createAudioPlayer({ behaviors: { noSubscriber: NoSubscriberBehavior.Play } });
     this.pipeline = pipeline ?? new VoicePipeline();
+    this.speech = new SpeechPlayer((text, item) => this.pipeline.streamSpeech(text, item.userId));
     
-    this.player.on(AudioPlayerStatus.Idle, () => {
-      logger.debug('Audio player idle');
+    this.speech.onPlaybackStart((item) => {
+      this.bargeIn.setArmed(true);
+      const trace = item.turnId ? this.latency.getTurn(item.turnId) : undefined;
+      if (trace) {
+        trace.mark('tts_first_byte', item.firstAudioAt);
+        trace.mark('playback_start');
+      }
+      void this.captions?.postBotResponse(item.text);
     });
     
-    this.player.on('error', (err) => {
-      logger.error(`Audio player error: ${err}`);
+    this.speech.onPlaybackEnd(() => {
+      this.bargeIn.setArmed(false);
     });
+
+    this.bargeIn.onBargeIn(() => this.interrupt());
   }
 
-  async attach(connection: VoiceConnection): Promise<void> {
+  async attach(connection: VoiceConnection, client?: Client): Promise<void> {
     this.connection = connection;
-    connection.subscribe(this.player);
+    this.client = client ?? null;
+    connection.subscribe(this.speech.getPlayer());
     this.receiver = new VoiceReceiver(connection);
     
     // Connect the voice pipeline (Deepgram STT WebSocket)
     await this.pipeline.connect();
+    this.pipeline.setPromptVariables(() => this.getPromptVariables());
     
     // Set up transcription handler
-    this.pipeline.getSTTClient().onTranscription(async (transcript, isFinal) => {
-      await this.handleTranscription(transcript, isFinal);
+    this.pipeline.onTranscription(async (event) => {
+      await this.handleTranscription(event);
     });
+    this.pipeline.onSpeechStarted((speaker) => {
+      this.bargeIn.speechStarted(speaker.userId);
+      this.handleSpeechResumed(speaker);
+    });
+    this.pipeline.onUtteranceEnd((speaker) => this.handleUtteranceEnd(speaker));
+    this.pipeline.onSpeechStopped((speaker, endedAt) => this.speechEndedAt.set(speaker.userId, endedAt));
     
     logger.info('Voice handler attached to connection');
   }
@@ -66,37 +126,127 @@ export class VoiceHandler {
     }
 
     try {
-      // Get the voice channel from the connection
-      const channel = this.connection.joinConfig.channelId;
+      const channel = this.getVoiceChannel();
       if (!channel) {
-        logger.error('No channel ID in connection');
+        logger.error('Voice channel not found for auto-listen');
         return;
       }
 
-      // Get guild from connection
-      const guildId = this.connection.joinConfig.guildId;
-      
-      logger.info(`Auto-listening to all users in channel ${channel} (guild: ${guildId})`);
-      
-      // Note: In a real implementation, we'd need access to the Discord client
-      // to get channel members. For now, log that auto-listen is enabled
-      // and users need to be added manually or via voice state updates
-      
-      logger.info('Auto-listen enabled. Users will be added as they speak or via voice state updates.');
-      
-      // Set up voice state tracking for future users
+      logger.info(`Auto-listening to all users in channel ${channel.name} (guild: ${channel.guild.id})`);
+
+      this.syncChannelMembers(channel);
+
+      // Follow joins, leaves and moves from here on
       this.setupVoiceStateTracking();
     } catch (err) {
       logger.error(`Failed to set up auto-listen: ${err}`);
     }
   }
 
+  /**
+   * Listen to every non-bot member of the channel and drop anyone no longer in it
+   */
+  private syncChannelMembers(channel: VoiceBasedChannel): void {
+    for (const userId of this.getActiveUsers()) {
+      if (!channel.members.has(userId)) {
+        this.stopListeningToUser(userId);
+      }
+    }
+
+    const active = new Set(this.getActiveUsers());
+    for (const [userId, member] of channel.members) {
+      if (member.user.bot || active.has(userId)) continue;
+      this.startListeningToUser(userId);
+    }
+  }
+
+  /**
+   * Restore playback and audio subscriptions after the connection reconnects
+   * (possibly into a different channel)
+   */
+  reattach(): void {
+    if (!this.connection) return;
+
+    this.connection.subscribe(this.speech.getPlayer());
+    this.receiver?.resetStreams();
+
+    const channel = this.voiceStateListener ? this.getVoiceChannel() : null;
+    if (channel) {
+      this.syncChannelMembers(channel);
+    }
+    logger.info('Voice handler reattached after reconnect');
+  }
+
+  /**
+   * Guild, channel and the people in it, for the persona's system prompt
+   */
+  private getPromptVariables(): PromptVariables {
+    const channel = this.getVoiceChannel();
+    const speakers = this.pipeline.getSpeakers().map(({ displayName }) => displayName);
+    if (!channel) return { participants: speakers };
+
+    return {
+      guild: channel.guild.name,
+      channel: channel.name,
+      participants: channel.members.filter((m) => !m.user.bot).map((m) => m.displayName),
+    };
+  }
+
+  private getVoiceChannel(): VoiceBasedChannel | null {
+    if (!this.connection || !this.client) return null;
+
+    const { guildId, channelId } = this.connection.joinConfig;
+    if (!channelId) return null;
+
+    const channel = this.client.guilds.cache.get(guildId)?.channels.cache.get(channelId);
+    return channel && channel.isVoiceBased() ? channel : null;
+  }
+
   private setupVoiceStateTracking(): void {
-    // This would track voice state changes to auto-add users
-    // For now, log that it's set up
+    if (!this.client || !this.connection) {
+      logger.warn('Voice state tracking unavailable - no Discord client attached');
+      return;
+    }
+    if (this.voiceStateListener) return;
+
+    const connection = this.connection;
+    this.voiceStateListener = (oldState, newState) => {
+      const { guildId, channelId } = connection.joinConfig;
+      if (newState.guild.id !== guildId) return;
+      if (newState.member?.user.bot) return;
+
+      const userId = newState.id;
+      const wasHere = oldState.channelId === channelId;
+      const isHere = newState.channelId === channelId;
+
+      if (isHere && !wasHere) {
+        logger.info(`User ${newState.member?.displayName ?? userId} joined the channel`);
+        this.startListeningToUser(userId);
+      } else if (wasHere && !isHere) {
+        logger.info(`User ${oldState.member?.displayName ?? userId} left the channel`);
+        this.stopListeningToUser(userId);
+      }
+    };
+
+    this.client.on(Events.VoiceStateUpdate, this.voiceStateListener);
     logger.info('Voice state tracking enabled for auto-listen');
   }
 
+  private teardownVoiceStateTracking(): void {
+    if (this.client && this.voiceStateListener) {
+      this.client.off(Events.VoiceStateUpdate, this.voiceStateListener);
+    }
+    this.voiceStateListener = null;
+  }
+
+  getPipeline(): VoicePipeline {
+    return this.pipeline;
+  }
+
+  getSpeechPlayer(): SpeechPlayer {
+    return this.speech;
+  }
+
   getActiveUsers(): string[] {
     if (!this.receiver) return [];
     return this.receiver.getActiveUsers();
@@ -108,110 +258,339 @@ export class VoiceHandler {
       return;
     }
     
+    void this.pipeline.addSpeaker(this.resolveSpeaker(userId));
     this.receiver.startReceivingUser(userId, (audioBuffer) => {
-      this.pipeline.processAudio(audioBuffer);
+      if (this.getQuotaAction(userId) === 'pause') return;
+      this.bargeIn.processAudio(userId, audioBuffer);
+      this.pipeline.processAudio(audioBuffer, userId);
     });
   }
 
+  stopListeningToUser(userId: string): void {
+    this.receiver?.stopReceivingUser(userId);
+    this.pipeline.removeSpeaker(userId);
+  }
+
+  private getRoleIds(userId: string): string[] {
+    const guildId = this.connection?.joinConfig.guildId;
+    const member = guildId ? this.client?.guilds.cache.get(guildId)?.members.cache.get(userId) : undefined;
+    return member ? Array.from(member.roles.cache.keys()) : [];
+  }
+
+  getCaptions(): CaptionRelay | null {
+    return this.captions;
+  }
+
+  /**
+   * Start or stop mirroring transcripts and bot speech as captions
+   */
+  setCaptions(relay: CaptionRelay | null): void {
+    this.captions?.close();
+    this.captions = relay;
+  }
+
+  /**
+   * Where speakers' pinned languages come from
+   */
+  setLanguageLookup(lookup: (userId: string) => string | undefined): void {
+    this.languageLookup = lookup;
+  }
+
+  /**
+   * Where replies are posted when they cannot be spoken
+   */
+  setTextChannel(channel: TextBasedChannel | null): void {
+    this.textChannel = channel;
+  }
+
+  /**
+   * Restrict a user, or everyone when `userId` is null, after a quota runs out. A null action lifts it.
+   */
+  setQuotaAction(userId: string | null, action: QuotaAction | null): void {
+    if (action) this.quotaActions.set(userId ?? '', action);
+    else this.quotaActions.delete(userId ?? '');
+  }
+
+  /**
+   * The strictest restriction on a user; pausing wins over text-only
+   */
+  getQuotaAction(userId: string): QuotaAction | null {
+    const actions = [this.quotaActions.get(''), this.quotaActions.get(userId)];
+    if (actions.includes('pause')) return 'pause';
+    return actions.includes('text') ? 'text' : null;
+  }
+
+  getLatency(): LatencyTracker {
+    return this.latency;
+  }
+
+  getResponsePolicy(): ResponsePolicy {
+    return this.responsePolicy;
+  }
+
+  private resolveSpeaker(userId: string): Speaker {
+    const guildId = this.connection?.joinConfig.guildId;
+    const member = guildId ? this.client?.guilds.cache.get(guildId)?.members.cache.get(userId) : undefined;
+    return { userId, displayName: member?.displayName ?? userId, language: this.languageLookup(userId) };
+  }
+
   async stopListening(): Promise<void> {
+    this.teardownVoiceStateTracking();
+    this.setCaptions(null);
+    this.stopSpeaking();
+
     if (this.receiver) {
       this.receiver.stopAll();
     }
     
-    if (this.silenceTimer) {
-      clearTimeout(this.silenceTimer);
-      this.silenceTimer = null;
+    if (this.turnTimer) {
+      clearTimeout(this.turnTimer);
+      this.turnTimer = null;
     }
     
     this.pipeline.disconnect();
     logger.info('Stopped listening');
   }
 
-  private async handleTranscription(transcript: string, isFinal: boolean): Promise<void> {
-    if (!transcript || transcript.trim().length === 0) return;
-    
-    // Buffer transcripts
-    this.transcriptBuffer += ' ' + transcript;
-    
-    // Reset silence timer
-    if (this.silenceTimer) {
-      clearTimeout(this.silenceTimer);
+  private async handleTranscription(event: SpeakerTranscript): Promise<void> {
+    const { speaker, transcript, isFinal, speechFinal } = event;
+    const text = transcript.trim();
+    // An empty endpoint still means the speaker has finished
+    if (!text && !speechFinal) return;
+
+    this.captions?.handleTranscript(event);
+
+    const existing = this.transcriptBuffers.get(speaker.userId);
+    if (!text) {
+      if (existing) existing.complete = true;
+      this.scheduleTurn();
+      return;
     }
-    
-    // If final transcript or enough buffered, process
-    if (isFinal || this.transcriptBuffer.length > 100) {
-      // Set timer to process after silence
-      this.silenceTimer = setTimeout(async () => {
-        await this.processTranscript();
-      }, 1000); // 1 second of silence
+
+    const buffer = existing ?? { speaker, text: '', finalAt: 0, complete: false };
+    this.transcriptBuffers.set(speaker.userId, buffer);
+
+    if (!isFinal) {
+      // Interim results are revised by the final one, so only note that the speaker is mid-utterance
+      buffer.complete = false;
+    } else {
+      buffer.text += ' ' + text;
+      buffer.finalAt = Date.now();
+      buffer.complete = speechFinal;
     }
+    this.scheduleTurn();
+  }
+
+  /**
+   * No new words for a while, so whatever the speaker said last is all they said
+   */
+  private handleUtteranceEnd(speaker: Speaker): void {
+    const buffer = this.transcriptBuffers.get(speaker.userId);
+    if (!buffer || buffer.complete) return;
+    buffer.complete = true;
+    this.scheduleTurn();
+  }
+
+  /**
+   * A speaker started again after an endpoint; wait for the rest of what they say
+   */
+  private handleSpeechResumed(speaker: Speaker): void {
+    const buffer = this.transcriptBuffers.get(speaker.userId);
+    if (!buffer?.complete) return;
+    buffer.complete = false;
+    this.scheduleTurn();
+  }
+
+  /**
+   * Take the turn shortly after every speaker has finished, or after a
+   * fallback timeout if an endpoint never arrives
+   */
+  private scheduleTurn(): void {
+    if (this.turnTimer) {
+      clearTimeout(this.turnTimer);
+      this.turnTimer = null;
+    }
+    if (this.transcriptBuffers.size === 0) return;
+
+    const buffers = Array.from(this.transcriptBuffers.values());
+    const ready = buffers.every(({ complete }) => complete) && buffers.some(({ text }) => text.trim());
+    this.turnTimer = setTimeout(() => this.processTranscript(), ready ? TURN_GRACE_MS : TURN_TIMEOUT_MS);
   }
 
   private async processTranscript(): Promise<void> {
-    if (this.isProcessing || !this.transcriptBuffer.trim()) return;
+    this.turnTimer = null;
+    if (this.isProcessing || this.transcriptBuffers.size === 0) return;
     
     this.isProcessing = true;
-    const input = this.transcriptBuffer.trim();
-    this.transcriptBuffer = '';
+
+    const utterances = Array.from(this.transcriptBuffers.values()).filter(({ text }) => text.trim());
+    this.transcriptBuffers.clear();
+
+    // Answers to tool confirmations count whether or not the bot is addressed
+    for (const { speaker, text } of utterances) {
+      this.pipeline.getTools().hearReply(speaker.userId, text);
+    }
+
+    // One labelled line per speaker so the LLM knows who said what
+    const input = utterances.map(({ speaker, text }) => `${speaker.displayName}: ${text.trim()}`).join('\n');
+    const speakers = utterances.map(({ speaker }) => speaker);
     
     try {
-      logger.info(`Processing transcript: "${input}"`);
-      
-      // Generate response using LLM
-      const response = await this.pipeline.generateResponse(input);
-      
-      // Speak the response
-      await this.speak(response);
+      if (!input) return;
+
+      const addressed = utterances.some(({ speaker, text }) =>
+        this.responsePolicy.shouldRespond(speaker, text, this.getRoleIds(speaker.userId))
+      );
+      if (!addressed) {
+        // Keep what was said so later replies have the full picture
+        this.pipeline.addToContext(input, speakers);
+        logger.info(`Not addressed (${this.responsePolicy.getMode()} mode), recorded: "${input}"`);
+        return;
+      }
+
+      const trace = this.latency.startTurn();
+      const speechEnd = Math.max(0, ...utterances.map(({ speaker }) => this.speechEndedAt.get(speaker.userId) ?? 0));
+      if (speechEnd) trace.mark('speech_end', speechEnd);
+      trace.mark('transcript_final', Math.max(...utterances.map(({ finalAt }) => finalAt)));
+      trace.mark('turn_start');
+
+      logger.info(`[turn ${trace.id}] Processing transcript: "${input}"`);
+      await this.streamReply(input, speakers, trace);
     } catch (err) {
       logger.error(`Failed to process transcript: ${err}`);
     } finally {
       this.isProcessing = false;
+      
+      // Pick up anything said while the response was being generated
+      if (this.transcriptBuffers.size > 0 && !this.turnTimer) {
+        this.scheduleTurn();
+      }
     }
   }
 
-  async speak(text: string): Promise<void> {
+  /**
+   * Speak each sentence of the reply as soon as the model has written it.
+   * Later sentences keep generating while earlier ones are synthesized and played.
+   * A speaker limited to text-only replies gets the whole reply posted instead.
+   */
+  private async streamReply(input: string, speakers: Speaker[], trace: TurnTrace): Promise<void> {
+    const reply: ActiveReply = {
+      controller: new AbortController(),
+      trace,
+      sentences: [],
+      heard: [],
+      generating: true,
+      interruptedAfter: null,
+    };
+    const superseded = this.activeReply;
+    if (superseded) {
+      superseded.controller.abort();
+      // Its sentences still waiting to play would be heard before the new answer
+      this.speech.cancelTurn(superseded.trace.id);
+    }
+    this.activeReply = reply;
+
+    const playback: Promise<SpeechOutcome>[] = [];
+    const textOnly = this.getQuotaAction(speakers[0]?.userId ?? '') === 'text';
     try {
-      // Get linear16 PCM at 16kHz mono and encode to Opus for Discord playback
-      const pcm = await this.pipeline.synthesizeSpeech(text);
-      
-      if (!pcm || pcm.length === 0) {
-        logger.warn('No audio data received from TTS');
-        return;
+      for await (const sentence of this.pipeline.streamResponse(input, reply.controller.signal, trace, speakers)) {
+        trace.mark('first_sentence');
+        reply.sentences.push(sentence);
+        if (textOnly) continue;
+        playback.push(
+          this.speak(sentence, 'reply', trace.id, speakers[0]?.userId).then((outcome) => {
+            if (outcome === 'finished') reply.heard.push(sentence);
+            return outcome;
+          })
+        );
       }
-      
-      const pcmStream = Readable.from(pcm);
-
-      // Encode PCM -> Opus (Discord expects Opus @ 48k)
-      const encoder = new prism.opus.Encoder({
-        rate: 48000,
-        channels: 1,
-        frameSize: 960,
-      });
-
-      // Resample 16k -> 48k mono using prism FFmpeg
-      const resampler = new prism.FFmpeg({
-        args: [
-          '-f', 's16le',
-          '-ar', '16000',
-          '-ac', '1',
-          '-i', 'pipe:0',
-          '-f', 's16le',
-          '-ar', '48000',
-          '-ac', '1',
-          'pipe:1',
-        ],
-      });
-
-      const opusStream = pcmStream.pipe(resampler).pipe(encoder);
-      const resource = createAudioResource(opusStream, { inputType: StreamType.Opus });
-      
-      this.player.play(resource);
-      logger.info(`Speaking: "${text.substring(0, 50)}..."`);
+      if (textOnly && reply.sentences.length > 0) await this.postReply(reply.sentences.join(' '));
     } catch (err) {
-      logger.error(`Failed to speak: ${err}`);
+      this.latency.discardTurn(trace);
+      throw err;
+    } finally {
+      reply.generating = false;
+      if (reply.interruptedAfter !== null) {
+        this.pipeline.markInterrupted(reply.sentences.join(' '), reply.interruptedAfter);
+      }
+    }
+
+    // Playback continues after this turn is done; forget the reply once it has all been spoken
+    void Promise.all(playback).then(() => {
+      if (this.activeReply === reply) this.activeReply = null;
+      trace.mark('playback_end');
+      this.latency.finishTurn(trace);
+    });
+  }
+
+  private async postReply(text: string): Promise<void> {
+    if (!this.textChannel?.isSendable()) {
+      logger.warn(`No text channel for a text-only reply, dropped: "${text.substring(0, 50)}"`);
+      return;
+    }
+    await this.textChannel.send({ content: text.slice(0, MAX_MESSAGE_LENGTH), allowedMentions: { parse: [] } });
+  }
+
+  /**
+   * Stop generating the current reply without recording an interruption
+   */
+  private cancelReply(): void {
+    this.activeReply?.controller.abort();
+    this.activeReply = null;
+  }
+
+  /**
+   * Queue text for playback. Resolves once the audio has finished playing
+   * (or was skipped, cancelled or interrupted). TTS usage is metered against `userId`.
+   */
+  speak(text: string, priority: SpeechPriority = 'say', turnId?: string, userId?: string): Promise<SpeechOutcome> {
+    return this.speech.enqueue(text, priority, turnId, userId);
+  }
+
+  /**
+   * Cut the bot off: fade out current playback, drop queued speech and
+   * record how much of the response was actually heard
+   */
+  interrupt(): void {
+    const cut = this.speech.interrupt();
+    this.pipeline.clearSpeech();
+    const reply = this.activeReply;
+
+    if (!reply) {
+      if (cut) this.pipeline.markInterrupted(cut.text, cut.spokenText);
+      return;
+    }
+
+    // Stop the model too; there is no point generating what nobody will hear
+    this.activeReply = null;
+    reply.controller.abort();
+
+    const partial = cut && reply.sentences.includes(cut.text) ? cut.spokenText : '';
+    reply.interruptedAfter = [...reply.heard, partial].join(' ').trim();
+    if (!reply.generating) {
+      this.pipeline.markInterrupted(reply.sentences.join(' '), reply.interruptedAfter);
     }
   }
 
+  /**
+   * Drop current and queued speech and stop generating the current reply.
+   * Returns the number of speech items dropped.
+   */
+  stopSpeaking(): number {
+    this.cancelReply();
+    const dropped = this.speech.stop();
+    this.pipeline.clearSpeech();
+    return dropped;
+  }
+
+  getBargeInSensitivity(): BargeInSensitivity {
+    return this.bargeIn.getSensitivity();
+  }
+
+  setBargeInSensitivity(sensitivity: BargeInSensitivity): void {
+    this.bargeIn.setSensitivity(sensitivity);
+  }
+
   onAudioReceived(callback: (audio: Buffer) => void): void {
     // Legacy method for compatibility
     logger.info('Registered onAudioReceived callback (use startListeningToUser instead)');
@@ -219,6 +598,6 @@ export class VoiceHandler {
 
   clearContext(): void {
     this.pipeline.clearContext();
-    this.transcriptBuffer = '';
+    this.transcriptBuffers.clear();
   }
 }
\ No newline at end of file
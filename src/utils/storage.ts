@@ -0,0 +1,34 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from './logger';
+
+/**
+ * Directory for state that should survive restarts (override with DATA_DIR)
+ */
+export function dataPath(fileName: string): string {
+  return path.resolve(process.env.DATA_DIR || 'data', fileName);
+}
+
+export function readJsonFile<T>(filePath: string, fallback: T): T {
+  try {
+    if (!fs.existsSync(filePath)) return fallback;
+    return JSON.parse(fs.readFileSync(filePath, 'utf8')) as T;
+  } catch (err) {
+    logger.error(`Failed to read ${filePath}: ${err}`);
+    return fallback;
+  }
+}
+
+/**
+ * Write via a temp file and rename so a crash never leaves half a file behind
+ */
+export function writeJsonFile(filePath: string, data: unknown): void {
+  try {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const tmpPath = `${filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2));
+    fs.renameSync(tmpPath, filePath);
+  } catch (err) {
+    logger.error(`Failed to write ${filePath}: ${err}`);
+  }
+}
@@ -0,0 +1,112 @@
+import { logger } from '../utils/logger';
+
+export type BargeInSensitivity = 'off' | 'low' | 'medium' | 'high';
+
+export const BARGE_IN_SENSITIVITIES: BargeInSensitivity[] = ['off', 'low', 'medium', 'high'];
+
+interface BargeInPreset {
+  rmsThreshold: number; // RMS amplitude of 16-bit PCM counted as speech
+  minSpeechMs: number; // sustained speech needed before interrupting
+  trustSpeechStarted: boolean; // interrupt on Deepgram SpeechStarted alone
+}
+
+const PRESETS: Record<Exclude<BargeInSensitivity, 'off'>, BargeInPreset> = {
+  low: { rmsThreshold: 1500, minSpeechMs: 600, trustSpeechStarted: false },
+  medium: { rmsThreshold: 800, minSpeechMs: 300, trustSpeechStarted: true },
+  high: { rmsThreshold: 400, minSpeechMs: 120, trustSpeechStarted: true },
+};
+
+const BYTES_PER_MS = 32; // 16kHz mono linear16
+
+export function isBargeInSensitivity(value: string): value is BargeInSensitivity {
+  return (BARGE_IN_SENSITIVITIES as string[]).includes(value);
+}
+
+export function computeRms(pcm: Buffer): number {
+  const samples = Math.floor(pcm.length / 2);
+  if (samples === 0) return 0;
+
+  let sumSquares = 0;
+  for (let i = 0; i < samples * 2; i += 2) {
+    const sample = pcm.readInt16LE(i);
+    sumSquares += sample * sample;
+  }
+  return Math.sqrt(sumSquares / samples);
+}
+
+/**
+ * Decides when a human talking over the bot should cut its playback short.
+ * Only active while armed, i.e. while the bot is speaking.
+ */
+export class BargeInDetector {
+  private sensitivity: BargeInSensitivity;
+  private armed = false;
+  private speechMs: Map<string, number> = new Map();
+  private callbacks: Array<(userId: string) => void> = [];
+
+  constructor(sensitivity?: BargeInSensitivity) {
+    const fromEnv = process.env.BARGE_IN_SENSITIVITY;
+    this.sensitivity = sensitivity ?? (fromEnv && isBargeInSensitivity(fromEnv) ? fromEnv : 'medium');
+  }
+
+  getSensitivity(): BargeInSensitivity {
+    return this.sensitivity;
+  }
+
+  setSensitivity(sensitivity: BargeInSensitivity): void {
+    this.sensitivity = sensitivity;
+    this.speechMs.clear();
+    logger.info(`Barge-in sensitivity set to ${sensitivity}`);
+  }
+
+  setArmed(armed: boolean): void {
+    this.armed = armed;
+    this.speechMs.clear();
+  }
+
+  isArmed(): boolean {
+    return this.armed;
+  }
+
+  onBargeIn(callback: (userId: string) => void): void {
+    this.callbacks.push(callback);
+  }
+
+  /**
+   * Feed a user's 16kHz mono PCM; sustained energy above the threshold triggers barge-in
+   */
+  processAudio(userId: string, pcm: Buffer): void {
+    if (!this.armed || this.sensitivity === 'off') return;
+
+    const preset = PRESETS[this.sensitivity];
+    if (computeRms(pcm) < preset.rmsThreshold) {
+      this.speechMs.delete(userId);
+      return;
+    }
+
+    const total = (this.speechMs.get(userId) ?? 0) + pcm.length / BYTES_PER_MS;
+    this.speechMs.set(userId, total);
+
+    if (total >= preset.minSpeechMs) {
+      this.trigger(userId);
+    }
+  }
+
+  /**
+   * Speech onset reported by the STT provider
+   */
+  speechStarted(userId: string): void {
+    if (!this.armed || this.sensitivity === 'off') return;
+    if (PRESETS[this.sensitivity].trustSpeechStarted) {
+      this.trigger(userId);
+    }
+  }
+
+  private trigger(userId: string): void {
+    this.setArmed(false);
+    logger.info(`Barge-in by user ${userId}`);
+    for (const callback of this.callbacks) {
+      callback(userId);
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import { logger } from '../utils/logger';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitOptions {
+  /** Consecutive failures that open the circuit */
+  failureThreshold: number;
+  /** How long an open circuit rejects requests before letting one probe through */
+  cooldownMs: number;
+}
+
+interface Circuit {
+  failures: number;
+  openedAt: number | null;
+  /** When the half-open probe was let through; a probe that never reports back expires after the cooldown */
+  probeAt: number | null;
+}
+
+/**
+ * Stops sending requests to a backend that keeps failing, then lets a single
+ * request through after a cooldown to see whether it has recovered
+ */
+export class CircuitBreaker {
+  private options: CircuitOptions;
+  private circuits: Map<string, Circuit> = new Map();
+
+  constructor(options: Partial<CircuitOptions> = {}) {
+    this.options = { failureThreshold: 3, cooldownMs: 30000, ...options };
+  }
+
+  getState(key: string, now = Date.now()): CircuitState {
+    const circuit = this.circuits.get(key);
+    if (!circuit || circuit.openedAt === null) return 'closed';
+    return now - circuit.openedAt < this.options.cooldownMs ? 'open' : 'half-open';
+  }
+
+  /**
+   * Whether a request may go out now. In the half-open state only one probe is allowed at a time.
+   */
+  allowRequest(key: string, now = Date.now()): boolean {
+    const state = this.getState(key, now);
+    if (state === 'closed') return true;
+    if (state === 'open') return false;
+
+    const circuit = this.circuits.get(key)!;
+    if (circuit.probeAt !== null && now - circuit.probeAt < this.options.cooldownMs) return false;
+    circuit.probeAt = now;
+    return true;
+  }
+
+  recordSuccess(key: string): void {
+    if (this.getState(key) !== 'closed') logger.info(`Circuit closed for ${key}`);
+    this.circuits.delete(key);
+  }
+
+  recordFailure(key: string, now = Date.now()): void {
+    const circuit = this.circuits.get(key) ?? { failures: 0, openedAt: null, probeAt: null };
+    circuit.failures++;
+    this.circuits.set(key, circuit);
+
+    // A failed probe reopens straight away
+    if (circuit.openedAt !== null || circuit.failures >= this.options.failureThreshold) {
+      circuit.openedAt = now;
+      circuit.probeAt = null;
+      logger.warn(`Circuit open for ${key} after ${circuit.failures} failure(s); retrying in ${this.options.cooldownMs}ms`);
+    }
+  }
+
+  /**
+   * Circuits currently rejecting requests, for diagnostics
+   */
+  getOpenCircuits(now = Date.now()): Array<{ key: string; retryInMs: number }> {
+    return Array.from(this.circuits.entries())
+      .filter(([key]) => this.getState(key, now) === 'open')
+      .map(([key, circuit]) => ({ key, retryInMs: circuit.openedAt! + this.options.cooldownMs - now }));
+  }
+}
+
+/** Shared by every chat client so all sessions back off from the same failing model */
+export const chatCircuitBreaker = new CircuitBreaker({
+  failureThreshold: Number(process.env.LLM_CIRCUIT_FAILURES) || 3,
+  cooldownMs: Number(process.env.LLM_CIRCUIT_COOLDOWN_MS) || 30000,
+});
@@ -1,5 +1,6 @@
 import WebSocket from 'ws';
 import { logger } from '../utils/logger';
+import { SpeechToTextEvent, SpeechToTextStream } from './providers/types';
 
 interface DeepgramConfig {
   apiKey: string;
@@ -8,6 +9,7 @@ interface DeepgramConfig {
   punctuate?: boolean;
   interim_results?: boolean;
   endpointing?: number;
+  utterance_end_ms?: number;
   vad_events?: boolean;
 }
 
@@ -17,10 +19,13 @@ interface TranscriptionResult {
   start: number;
   is_final: boolean;
   speech_final: boolean;
+  from_finalize?: boolean;
   channel: {
     alternatives: Array<{
       transcript: string;
       confidence: number;
+      /** Detected languages, most used first; only sent when streaming with `language=multi` */
+      languages?: string[];
       words?: Array<{
         word: string;
         start: number;
@@ -31,14 +36,16 @@ interface TranscriptionResult {
   };
 }
 
-export class DeepgramSTT {
+export class DeepgramSTT implements SpeechToTextStream {
   private ws: WebSocket | null = null;
   private config: DeepgramConfig;
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
   private reconnectDelay = 1000;
   private isConnected = false;
+  private closedByClient = false;
   private keepAliveInterval: NodeJS.Timeout | null = null;
+  private eventCallbacks: Array<(event: SpeechToTextEvent) => void> = [];
 
   private verbose = false;
   private connectionState: 'disconnected' | 'connecting' | 'connected' = 'disconnected';
@@ -49,13 +56,20 @@ export class DeepgramSTT {
     const apiKey = process.env.DEEPGRAM_API_KEY;
     if (!apiKey) throw new Error('DEEPGRAM_API_KEY not set');
 
+    // `auto` streams with Deepgram's multilingual model, which reports the language of each result
+    const language = config?.language || process.env.DG_LANGUAGE || 'en-US';
+    const multilingual = language === 'auto' || language === 'multi';
+
     this.config = {
       apiKey,
-      model: config?.model || 'nova-2',
-      language: config?.language || 'en-US',
+      model: config?.model || (multilingual ? process.env.DG_MULTILINGUAL_MODEL || 'nova-3' : process.env.DG_STT_MODEL || 'nova-2'),
+      language: multilingual ? 'multi' : language,
       punctuate: config?.punctuate ?? true,
       interim_results: config?.interim_results ?? true,
-      endpointing: config?.endpointing ?? 10,
+      // Silence (ms) before a result is marked speech_final
+      endpointing: config?.endpointing ?? (Number(process.env.DG_ENDPOINTING_MS) || 300),
+      // Gap between words (ms) that produces an UtteranceEnd; Deepgram's minimum is 1000
+      utterance_end_ms: config?.utterance_end_ms ?? Math.max(1000, Number(process.env.DG_UTTERANCE_END_MS) || 1000),
       vad_events: config?.vad_events ?? true,
     };
 
@@ -75,6 +89,22 @@ export class DeepgramSTT {
     return this.connectionState;
   }
 
+  getModel(): string {
+    return this.config.model!;
+  }
+
+  /**
+   * Enabled options, named and ordered as in Deepgram's usage report
+   */
+  getFeatures(): string[] {
+    const features: string[] = [];
+    if (this.config.endpointing) features.push('endpointing');
+    if (this.config.interim_results) features.push('interim_results', 'utterance_end_ms');
+    if (this.config.punctuate) features.push('punctuate');
+    if (this.config.vad_events) features.push('vad_events');
+    return features;
+  }
+
   /**
    * Connect to Deepgram Live WebSocket
    */
@@ -82,6 +112,7 @@ export class DeepgramSTT {
     return new Promise((resolve, reject) => {
       try {
         this.connectionState = 'connecting';
+        this.closedByClient = false;
         
         const params = new URLSearchParams({
           model: this.config.model!,
@@ -94,6 +125,10 @@ export class DeepgramSTT {
           sample_rate: '16000',
           channels: '1',
         });
+        // UtteranceEnd messages are only sent alongside interim results
+        if (this.config.interim_results) {
+          params.set('utterance_end_ms', String(this.config.utterance_end_ms));
+        }
 
         const url = `wss://api.deepgram.com/v1/listen?${params}`;
 
@@ -121,6 +156,8 @@ export class DeepgramSTT {
           resolve();
         });
 
+        this.ws.on('message', (data: Buffer) => this.handleMessage(data));
+
         this.ws.on('error', (err: Error) => {
           logger.error(`Deepgram WebSocket error: ${err}`);
           if (!this.isConnected) {
@@ -131,8 +168,11 @@ export class DeepgramSTT {
         this.ws.on('close', (code: number, reason: Buffer) => {
           logger.info(`Deepgram WebSocket closed: ${code} - ${reason}`);
           this.isConnected = false;
+          this.connectionState = 'disconnected';
           this.stopKeepAlive();
-          this.handleReconnect();
+          if (!this.closedByClient) {
+            this.handleReconnect();
+          }
         });
       } catch (err) {
         reject(err);
@@ -166,63 +206,93 @@ export class DeepgramSTT {
   }
 
   /**
-   * Listen for transcription results
+   * Ask Deepgram to return final results for all audio sent so far
    */
-  onTranscription(callback: (transcript: string, isFinal: boolean) => void): void {
-    if (!this.ws) {
-      logger.error('WebSocket not initialized');
-      return;
+  finalize(): void {
+    if (!this.isReady()) return;
+    this.ws!.send(JSON.stringify({ type: 'Finalize' }));
+  }
+
+  /**
+   * Listen for transcripts, utterance ends and speech onsets. Callbacks survive reconnects.
+   */
+  onEvent(callback: (event: SpeechToTextEvent) => void): void {
+    this.eventCallbacks.push(callback);
+  }
+
+  private emit(event: SpeechToTextEvent): void {
+    for (const callback of this.eventCallbacks) {
+      callback(event);
     }
+  }
 
-    this.ws.on('message', (data: Buffer) => {
-      try {
-        const message = JSON.parse(data.toString());
+  private handleMessage(data: Buffer): void {
+    try {
+      const message = JSON.parse(data.toString());
 
-        if (this.verbose) {
-          logger.debug(`[VERBOSE] Deepgram message type: ${message.type}`);
-        }
+      if (this.verbose) {
+        logger.debug(`[VERBOSE] Deepgram message type: ${message.type}`);
+      }
 
-        // Handle different message types
-        if (message.type === 'Results') {
-          const result = message as { channel: TranscriptionResult['channel'] };
-          const alternative = result.channel?.alternatives?.[0];
-          
-          if (alternative && alternative.transcript) {
-            this.transcriptsReceived++;
-            if (this.verbose) {
-              logger.info(`[VERBOSE] Transcript #${this.transcriptsReceived}: "${alternative.transcript}" (final: ${message.is_final})`);
-            }
-            callback(alternative.transcript, message.is_final || false);
-          }
-        } else if (message.type === 'Metadata') {
-          if (this.verbose) {
-            logger.info(`[VERBOSE] Deepgram metadata: ${JSON.stringify(message)}`);
-          }
-        } else if (message.type === 'SpeechStarted') {
-          if (this.verbose) {
-            logger.info('[VERBOSE] Speech started detected');
-          }
-        } else if (message.type === 'UtteranceEnd') {
+      // Handle different message types
+      if (message.type === 'Results') {
+        const result = message as TranscriptionResult;
+        const alternative = result.channel?.alternatives?.[0];
+        // A Finalize request ends the utterance just like an endpoint would
+        const type = !result.is_final
+          ? 'interim'
+          : result.speech_final || result.from_finalize
+            ? 'speech_final'
+            : 'final';
+
+        // An empty speech_final still tells us the speaker has finished
+        if (alternative?.transcript || type === 'speech_final') {
+          this.transcriptsReceived++;
           if (this.verbose) {
-            logger.info('[VERBOSE] Utterance end detected');
+            logger.info(`[VERBOSE] Transcript #${this.transcriptsReceived}: "${alternative?.transcript ?? ''}" (${type})`);
           }
+          this.emit({
+            type,
+            transcript: alternative?.transcript ?? '',
+            confidence: alternative?.confidence ?? 0,
+            start: result.start ?? 0,
+            duration: result.duration ?? 0,
+            receivedAt: Date.now(),
+            language: alternative?.languages?.[0] ?? (this.config.language === 'multi' ? undefined : this.config.language),
+          });
         }
-      } catch (err) {
-        logger.error(`Failed to parse Deepgram message: ${err}`);
+      } else if (message.type === 'Metadata') {
+        if (this.verbose) {
+          logger.info(`[VERBOSE] Deepgram metadata: ${JSON.stringify(message)}`);
+        }
+      } else if (message.type === 'SpeechStarted') {
+        if (this.verbose) {
+          logger.info('[VERBOSE] Speech started detected');
+        }
+        this.emit({ type: 'speech_started', timestamp: message.timestamp ?? 0, receivedAt: Date.now() });
+      } else if (message.type === 'UtteranceEnd') {
+        if (this.verbose) {
+          logger.info('[VERBOSE] Utterance end detected');
+        }
+        this.emit({ type: 'utterance_end', lastWordEnd: message.last_word_end ?? 0, receivedAt: Date.now() });
       }
-    });
+    } catch (err) {
+      logger.error(`Failed to parse Deepgram message: ${err}`);
+    }
   }
 
   /**
    * Close the WebSocket connection
    */
   disconnect(): void {
+    this.closedByClient = true;
     this.stopKeepAlive();
     if (this.ws) {
       this.ws.close();
       this.ws = null;
     }
     this.isConnected = false;
+    this.connectionState = 'disconnected';
   }
 
   /**
@@ -240,6 +310,7 @@ export class DeepgramSTT {
     logger.info(`Attempting to reconnect to Deepgram in ${delay}ms (attempt ${this.reconnectAttempts})`);
     
     setTimeout(async () => {
+      if (this.closedByClient) return;
       try {
         await this.connect();
         logger.info('Successfully reconnected to Deepgram');
@@ -0,0 +1,316 @@
+import WebSocket from 'ws';
+import { PassThrough, Readable } from 'stream';
+import { logger } from '../utils/logger';
+
+interface DeepgramTTSConfig {
+  apiKey: string;
+  model?: string;
+  sample_rate?: number;
+}
+
+interface SpeakJob {
+  text: string;
+  audio: PassThrough;
+}
+
+export class DeepgramTTS {
+  private ws: WebSocket | null = null;
+  private config: DeepgramTTSConfig;
+  private reconnectAttempts = 0;
+  private maxReconnectAttempts = 5;
+  private reconnectDelay = 1000;
+  private isConnected = false;
+  private closedByClient = false;
+  private keepAliveInterval: NodeJS.Timeout | null = null;
+  /** Utterances waiting for audio, in the order they were flushed */
+  private pending: SpeakJob[] = [];
+  /** Audio still in flight after a Clear belongs to dropped utterances */
+  private clearing = false;
+  /** Speak and Flush messages held back until the Clear is acknowledged */
+  private held: object[] = [];
+
+  private verbose = false;
+  private connectionState: 'disconnected' | 'connecting' | 'connected' = 'disconnected';
+  private audioBytesReceived = 0;
+
+  constructor(config?: Partial<DeepgramTTSConfig>) {
+    const apiKey = process.env.DEEPGRAM_API_KEY;
+    if (!apiKey) throw new Error('DEEPGRAM_API_KEY not set');
+
+    this.config = {
+      apiKey,
+      model: config?.model || 'aura-asteria-en',
+      sample_rate: config?.sample_rate ?? 16000,
+    };
+
+    // Check for verbose mode
+    this.verbose = process.env.VERBOSE === 'true' || process.env.DEBUG?.includes('deepgram') || false;
+    if (this.verbose) {
+      logger.info('[VERBOSE] DeepgramTTS initialized in verbose mode');
+    }
+  }
+
+  setVerbose(enabled: boolean): void {
+    this.verbose = enabled;
+    logger.info(`[VERBOSE] Deepgram TTS verbose mode: ${enabled}`);
+  }
+
+  getConnectionState(): string {
+    return this.connectionState;
+  }
+
+  /**
+   * Connect to the Deepgram Speak WebSocket
+   */
+  async connect(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      try {
+        this.connectionState = 'connecting';
+        this.closedByClient = false;
+
+        const params = new URLSearchParams({
+          model: this.config.model!,
+          encoding: 'linear16',
+          sample_rate: String(this.config.sample_rate),
+        });
+
+        const url = `wss://api.deepgram.com/v1/speak?${params}`;
+
+        if (this.verbose) {
+          logger.info(`[VERBOSE] Connecting to Deepgram Speak WebSocket: ${url}`);
+        }
+
+        const ws = new WebSocket(url, {
+          headers: {
+            Authorization: `Token ${this.config.apiKey}`,
+          },
+        });
+        this.ws = ws;
+
+        // A socket replaced by a newer one (voice switch, reconnect) may still
+        // report events; only the current socket's may touch shared state
+        ws.on('open', () => {
+          if (ws !== this.ws) return;
+          logger.info('Connected to Deepgram Speak WebSocket');
+          this.isConnected = true;
+          this.connectionState = 'connected';
+          this.reconnectAttempts = 0;
+          this.startKeepAlive();
+          resolve();
+        });
+
+        ws.on('message', (data: Buffer, isBinary: boolean) => {
+          if (ws !== this.ws) return;
+          if (isBinary) {
+            this.handleAudio(data);
+          } else {
+            this.handleMessage(data);
+          }
+        });
+
+        ws.on('error', (err: Error) => {
+          if (ws !== this.ws) return;
+          logger.error(`Deepgram Speak WebSocket error: ${err}`);
+          if (!this.isConnected) {
+            reject(err);
+          }
+        });
+
+        ws.on('close', (code: number, reason: Buffer) => {
+          if (ws !== this.ws) {
+            reject(new Error('Deepgram Speak WebSocket replaced before it opened'));
+            return;
+          }
+          logger.info(`Deepgram Speak WebSocket closed: ${code} - ${reason}`);
+          this.isConnected = false;
+          this.connectionState = 'disconnected';
+          this.stopKeepAlive();
+          this.failPending(new Error('Deepgram Speak WebSocket closed'));
+          if (!this.closedByClient) {
+            this.handleReconnect();
+          }
+        });
+      } catch (err) {
+        reject(err);
+      }
+    });
+  }
+
+  /**
+   * Queue text for synthesis. The returned stream carries 16-bit PCM as it
+   * arrives and ends once Deepgram has flushed the utterance.
+   */
+  speak(text: string): Readable {
+    if (!this.isReady()) {
+      throw new Error('Deepgram Speak WebSocket not connected');
+    }
+
+    const job: SpeakJob = { text, audio: new PassThrough() };
+    this.pending.push(job);
+    // Sent now, its audio and Flushed would be dropped with the cleared ones
+    if (this.clearing) {
+      this.held.push({ type: 'Speak', text }, { type: 'Flush' });
+    } else {
+      this.send({ type: 'Speak', text });
+      this.send({ type: 'Flush' });
+    }
+
+    if (this.verbose) {
+      logger.debug(`[VERBOSE] Sent ${text.length} characters to Deepgram Speak | Pending: ${this.pending.length}`);
+    }
+    return job.audio;
+  }
+
+  /**
+   * Drop everything still being synthesized, e.g. on barge-in
+   */
+  clear(): void {
+    if (this.pending.length === 0) return;
+
+    for (const job of this.pending.splice(0)) {
+      job.audio.end();
+    }
+    this.held = [];
+    // Anything queued since the last Clear was held back and never sent
+    if (this.clearing) return;
+    if (this.isReady()) {
+      this.clearing = true;
+      this.send({ type: 'Clear' });
+    }
+  }
+
+  private send(message: object): void {
+    try {
+      this.ws?.send(JSON.stringify(message));
+    } catch (err) {
+      logger.error(`Failed to send to Deepgram Speak: ${err}`);
+    }
+  }
+
+  private handleAudio(data: Buffer): void {
+    if (this.clearing) return;
+
+    const job = this.pending[0];
+    if (!job) {
+      if (this.verbose) {
+        logger.warn(`[VERBOSE] Dropping ${data.length} bytes of unexpected TTS audio`);
+      }
+      return;
+    }
+
+    this.audioBytesReceived += data.length;
+    // Skipped or cancelled speech is destroyed by the player; its audio is discarded
+    if (!job.audio.destroyed) {
+      job.audio.write(data);
+    }
+  }
+
+  private handleMessage(data: Buffer): void {
+    try {
+      const message = JSON.parse(data.toString());
+
+      if (this.verbose) {
+        logger.debug(`[VERBOSE] Deepgram Speak message type: ${message.type}`);
+      }
+
+      if (message.type === 'Flushed') {
+        if (this.clearing) return;
+        const job = this.pending.shift();
+        job?.audio.end();
+        if (this.verbose && job) {
+          logger.info(`[VERBOSE] Synthesized "${job.text.substring(0, 50)}" | Total audio: ${this.audioBytesReceived} bytes`);
+        }
+      } else if (message.type === 'Cleared') {
+        this.clearing = false;
+        for (const held of this.held.splice(0)) {
+          this.send(held);
+        }
+      } else if (message.type === 'Warning') {
+        logger.warn(`Deepgram Speak warning: ${message.description ?? JSON.stringify(message)}`);
+      } else if (message.type === 'Metadata') {
+        if (this.verbose) {
+          logger.info(`[VERBOSE] Deepgram Speak metadata: ${JSON.stringify(message)}`);
+        }
+      }
+    } catch (err) {
+      logger.error(`Failed to parse Deepgram Speak message: ${err}`);
+    }
+  }
+
+  private failPending(err: Error): void {
+    this.clearing = false;
+    this.held = [];
+    for (const job of this.pending.splice(0)) {
+      job.audio.destroy(err);
+    }
+  }
+
+  /**
+   * Close the WebSocket connection
+   */
+  disconnect(): void {
+    this.closedByClient = true;
+    this.stopKeepAlive();
+    this.failPending(new Error('Deepgram Speak WebSocket disconnected'));
+    if (this.ws) {
+      this.send({ type: 'Close' });
+      this.ws.close();
+      this.ws = null;
+    }
+    this.isConnected = false;
+    this.connectionState = 'disconnected';
+  }
+
+  /**
+   * Handle reconnection logic
+   */
+  private async handleReconnect(): Promise<void> {
+    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+      logger.error('Max reconnection attempts reached for Deepgram Speak');
+      return;
+    }
+
+    this.reconnectAttempts++;
+    const delay = this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1);
+
+    logger.info(`Attempting to reconnect to Deepgram Speak in ${delay}ms (attempt ${this.reconnectAttempts})`);
+
+    setTimeout(async () => {
+      if (this.closedByClient) return;
+      try {
+        await this.connect();
+        logger.info('Successfully reconnected to Deepgram Speak');
+      } catch (err) {
+        logger.error(`Failed to reconnect to Deepgram Speak: ${err}`);
+      }
+    }, delay);
+  }
+
+  /**
+   * Ping the socket so it is not closed while the bot is quiet
+   */
+  private startKeepAlive(): void {
+    this.keepAliveInterval = setInterval(() => {
+      if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+        this.ws.ping();
+      }
+    }, 8000); // Send every 8 seconds
+  }
+
+  /**
+   * Stop keep-alive messages
+   */
+  private stopKeepAlive(): void {
+    if (this.keepAliveInterval) {
+      clearInterval(this.keepAliveInterval);
+      this.keepAliveInterval = null;
+    }
+  }
+
+  /**
+   * Check if connected
+   */
+  isReady(): boolean {
+    return this.isConnected && this.ws !== null && this.ws.readyState === WebSocket.OPEN;
+  }
+}
@@ -0,0 +1,149 @@
+import { logger } from '../utils/logger';
+import { ChatMessage } from './providers/types';
+
+export interface HistoryEntry {
+  role: 'user' | 'assistant';
+  content: string;
+  /** Who was speaking, for user turns */
+  speaker?: string;
+  timestamp: number;
+  tokens: number;
+}
+
+/** Fold older entries into `summary` and return the new summary */
+export type Summarizer = (summary: string, entries: HistoryEntry[]) => Promise<string>;
+
+const MESSAGE_OVERHEAD_TOKENS = 4; // role and separators
+const KEEP_RECENT = 2; // entries never folded, so the model always sees the last exchange verbatim
+const COMPACT_TO = 0.75; // share of the budget left after compacting, so it doesn't run every turn
+
+/**
+ * History budgets in tokens, excluding the system prompt. Voice replies need
+ * little context and every token adds latency, so these sit well under each
+ * model's context window. The first matching pattern wins.
+ */
+const MODEL_BUDGETS: Array<[RegExp, number]> = [
+  [/claude|gpt-4o|gpt-4\.1|gpt-4-turbo|gemini/i, 6000],
+  [/gpt-3\.5|mixtral|deepseek/i, 3000],
+  [/llama|mistral|phi|gemma|qwen/i, 2000],
+];
+const DEFAULT_BUDGET = 3000;
+
+/**
+ * Rough token count (about four characters per token) that avoids shipping a tokenizer
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * History budget for a model; HISTORY_TOKEN_BUDGET overrides the table
+ */
+export function tokenBudgetFor(model?: string): number {
+  const override = Number(process.env.HISTORY_TOKEN_BUDGET);
+  if (override > 0) return override;
+  const match = model ? MODEL_BUDGETS.find(([pattern]) => pattern.test(model)) : undefined;
+  return match ? match[1] : DEFAULT_BUDGET;
+}
+
+/**
+ * The conversation so far as role-tagged messages. Turns that no longer fit
+ * the token budget are folded into a running summary instead of being dropped.
+ */
+export class ConversationHistory {
+  private entries: HistoryEntry[] = [];
+  private summary = '';
+  private compacting: Promise<void> | null = null;
+  /** Bumped by clear() so a summary that finishes afterwards is thrown away */
+  private generation = 0;
+
+  add(role: HistoryEntry['role'], content: string, speaker?: string): HistoryEntry {
+    const entry: HistoryEntry = { role, content, speaker, timestamp: Date.now(), tokens: estimateTokens(content) };
+    this.entries.push(entry);
+    return entry;
+  }
+
+  /**
+   * Rewrite the latest assistant entry with this content, e.g. after an interruption
+   */
+  replaceLastResponse(content: string, replacement: string): boolean {
+    for (let i = this.entries.length - 1; i >= 0; i--) {
+      const entry = this.entries[i];
+      if (entry.role === 'assistant' && entry.content === content) {
+        entry.content = replacement;
+        entry.tokens = estimateTokens(replacement);
+        return true;
+      }
+    }
+    return false;
+  }
+
+  getEntries(): HistoryEntry[] {
+    return [...this.entries];
+  }
+
+  getSummary(): string {
+    return this.summary;
+  }
+
+  getTokenCount(): number {
+    const summaryTokens = this.summary ? estimateTokens(this.summary) : 0;
+    return this.entries.reduce((total, { tokens }) => total + tokens, summaryTokens);
+  }
+
+  /**
+   * Messages for the chat model: the system prompt, the summary of older turns, then the turns themselves
+   */
+  toMessages(systemPrompt: string): ChatMessage[] {
+    const messages: ChatMessage[] = [{ role: 'system', content: systemPrompt }];
+    if (this.summary) {
+      messages.push({ role: 'system', content: `Summary of the earlier conversation: ${this.summary}` });
+    }
+    for (const { role, content } of this.entries) {
+      messages.push({ role, content });
+    }
+    return messages;
+  }
+
+  /**
+   * If the history is over budget, summarize the oldest turns and drop them.
+   * Only one compaction runs at a time; concurrent calls share it.
+   */
+  compact(budget: number, summarize: Summarizer): Promise<void> {
+    if (!this.compacting) {
+      this.compacting = this.runCompaction(budget, summarize).finally(() => {
+        this.compacting = null;
+      });
+    }
+    return this.compacting;
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.summary = '';
+    this.generation++;
+  }
+
+  private async runCompaction(budget: number, summarize: Summarizer): Promise<void> {
+    if (this.getTokenCount() <= budget) return;
+
+    const target = budget * COMPACT_TO;
+    let excess = this.getTokenCount() - target;
+    const folded: HistoryEntry[] = [];
+    for (const entry of this.entries.slice(0, Math.max(0, this.entries.length - KEEP_RECENT))) {
+      if (excess <= 0) break;
+      folded.push(entry);
+      excess -= entry.tokens;
+    }
+    if (folded.length === 0) return;
+
+    const generation = this.generation;
+    const summary = await summarize(this.summary, folded);
+    if (generation !== this.generation) return;
+
+    // New turns may have arrived while summarizing, so remove exactly the ones that were folded
+    this.entries = this.entries.filter((entry) => !folded.includes(entry));
+    this.summary = summary.trim();
+    logger.info(`Folded ${folded.length} older message(s) into the conversation summary`);
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Languages are BCP-47 codes such as `es` or `pt-BR`. `auto` asks the STT to
+ * detect the language instead.
+ */
+
+export const AUTO_LANGUAGE = 'auto';
+
+const displayNames = new Intl.DisplayNames(['en'], { type: 'language' });
+
+/**
+ * TTS voice per language from TTS_LANGUAGE_VOICES, e.g. `es=aura-2-celeste-es,de=aura-2-julius-de`
+ */
+function voicesFromEnv(): Map<string, string> {
+  const voices = new Map<string, string>();
+  for (const entry of (process.env.TTS_LANGUAGE_VOICES || '').split(',')) {
+    const [language, voice] = entry.split('=').map((part) => part.trim());
+    if (language && voice) voices.set(baseLanguage(language), voice);
+  }
+  return voices;
+}
+
+/**
+ * The language without its region or script, e.g. `pt` for `pt-BR`
+ */
+export function baseLanguage(code: string): string {
+  return code.split('-')[0].toLowerCase();
+}
+
+/**
+ * Canonical form of a language code, or null if it is not a known language
+ */
+export function normalizeLanguage(code: string): string | null {
+  try {
+    const [canonical] = Intl.getCanonicalLocales(code);
+    return displayNames.of(canonical) !== canonical ? canonical : null;
+  } catch {
+    return null;
+  }
+}
+
+export function languageName(code: string): string {
+  try {
+    return displayNames.of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
+
+/**
+ * System prompt addition that has the model answer in the speaker's language.
+ * English is the prompt's own language, so it needs none.
+ */
+export function languageInstruction(language?: string): string | null {
+  if (!language || language === AUTO_LANGUAGE || baseLanguage(language) === 'en') return null;
+  const name = languageName(language);
+  return `The person speaking is using ${name}. Reply in ${name}.`;
+}
+
+export const LANGUAGE_VOICES = voicesFromEnv();
@@ -0,0 +1,167 @@
+import { logger } from '../utils/logger';
+
+/** Points in a turn, from the speaker going quiet to the bot finishing its reply */
+export type TurnMark =
+  | 'speech_end'
+  | 'transcript_final'
+  | 'turn_start'
+  | 'llm_first_token'
+  | 'llm_done'
+  | 'first_sentence'
+  | 'tts_first_byte'
+  | 'playback_start'
+  | 'playback_end';
+
+export type LatencyStage =
+  | 'stt'
+  | 'debounce'
+  | 'llm_first_token'
+  | 'llm_total'
+  | 'tts_first_byte'
+  | 'playback_start'
+  | 'playback'
+  | 'response';
+
+/** Each stage spans two marks; turns missing either mark skip the stage */
+const STAGES: Array<{ stage: LatencyStage; label: string; from: TurnMark; to: TurnMark }> = [
+  { stage: 'stt', label: 'STT final', from: 'speech_end', to: 'transcript_final' },
+  { stage: 'debounce', label: 'Debounce', from: 'transcript_final', to: 'turn_start' },
+  { stage: 'llm_first_token', label: 'LLM first token', from: 'turn_start', to: 'llm_first_token' },
+  { stage: 'llm_total', label: 'LLM total', from: 'turn_start', to: 'llm_done' },
+  { stage: 'tts_first_byte', label: 'TTS first byte', from: 'first_sentence', to: 'tts_first_byte' },
+  { stage: 'playback_start', label: 'Playback start', from: 'tts_first_byte', to: 'playback_start' },
+  { stage: 'playback', label: 'Playback', from: 'playback_start', to: 'playback_end' },
+  { stage: 'response', label: 'Speech end to reply', from: 'speech_end', to: 'playback_start' },
+];
+
+const WINDOW_SIZE = 100; // turns kept per stage for the rolling percentiles
+const SUMMARY_EVERY = 10; // turns between aggregate log lines
+
+export interface StageStats {
+  stage: LatencyStage;
+  label: string;
+  count: number;
+  p50: number;
+  p95: number;
+}
+
+/**
+ * Timestamps for one conversational turn. The first time a mark is hit wins.
+ */
+export class TurnTrace {
+  readonly id: string;
+  private marks: Map<TurnMark, number> = new Map();
+  private model: string | null = null;
+
+  constructor(id: string) {
+    this.id = id;
+  }
+
+  /**
+   * Record the chat model that answered; the last one wins, as a fallback replaces a failed attempt
+   */
+  setModel(model: string): void {
+    this.model = model;
+  }
+
+  getModel(): string | null {
+    return this.model;
+  }
+
+  mark(name: TurnMark, at = Date.now()): void {
+    if (!this.marks.has(name)) this.marks.set(name, at);
+  }
+
+  getMark(name: TurnMark): number | undefined {
+    return this.marks.get(name);
+  }
+
+  /**
+   * Duration of every stage whose marks were both recorded
+   */
+  spans(): Partial<Record<LatencyStage, number>> {
+    const spans: Partial<Record<LatencyStage, number>> = {};
+    for (const { stage, from, to } of STAGES) {
+      const start = this.marks.get(from);
+      const end = this.marks.get(to);
+      if (start !== undefined && end !== undefined) {
+        spans[stage] = Math.max(0, end - start);
+      }
+    }
+    return spans;
+  }
+}
+
+/**
+ * Hands out turn IDs and keeps rolling p50/p95 latency per stage
+ */
+export class LatencyTracker {
+  private nextTurn = 1;
+  private active: Map<string, TurnTrace> = new Map();
+  private samples: Map<LatencyStage, number[]> = new Map();
+  private completed = 0;
+
+  startTurn(): TurnTrace {
+    const trace = new TurnTrace(`t${this.nextTurn++}`);
+    this.active.set(trace.id, trace);
+    return trace;
+  }
+
+  getTurn(id: string): TurnTrace | undefined {
+    return this.active.get(id);
+  }
+
+  /**
+   * Record the turn's spans in the aggregates and log them
+   */
+  finishTurn(trace: TurnTrace): void {
+    if (!this.active.delete(trace.id)) return;
+
+    const spans = trace.spans();
+    for (const [stage, ms] of Object.entries(spans) as Array<[LatencyStage, number]>) {
+      const window = this.samples.get(stage) ?? [];
+      window.push(ms);
+      if (window.length > WINDOW_SIZE) window.shift();
+      this.samples.set(stage, window);
+    }
+
+    const parts = STAGES.filter(({ stage }) => spans[stage] !== undefined).map(
+      ({ stage, label }) => `${label} ${spans[stage]}ms`
+    );
+    const model = trace.getModel() ? ` (model: ${trace.getModel()})` : '';
+    logger.info(`[turn ${trace.id}]${model} ${parts.join(' | ') || 'no timings recorded'}`);
+
+    this.completed++;
+    if (this.completed % SUMMARY_EVERY === 0) {
+      logger.info(`Latency over the last ${WINDOW_SIZE} turns:\n${this.describe()}`);
+    }
+  }
+
+  /**
+   * Drop a turn that ended without a reply
+   */
+  discardTurn(trace: TurnTrace): void {
+    this.active.delete(trace.id);
+  }
+
+  getStats(): StageStats[] {
+    return STAGES.filter(({ stage }) => this.samples.get(stage)?.length).map(({ stage, label }) => {
+      const sorted = [...this.samples.get(stage)!].sort((a, b) => a - b);
+      return { stage, label, count: sorted.length, p50: percentile(sorted, 50), p95: percentile(sorted, 95) };
+    });
+  }
+
+  describe(): string {
+    const stats = this.getStats();
+    if (stats.length === 0) return 'No turns recorded yet.';
+    return stats.map((s) => `${s.label}: p50 ${s.p50}ms | p95 ${s.p95}ms (${s.count} turns)`).join('\n');
+  }
+}
+
+/**
+ * Nearest-rank percentile of an ascending list
+ */
+function percentile(sorted: number[], p: number): number {
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
@@ -0,0 +1,419 @@
+import { logger } from '../utils/logger';
+import fetch from 'cross-fetch';
+import {
+  ChatAuthStyle,
+  ChatMessage,
+  ChatModelProvider,
+  ChatOptions,
+  ChatSettings,
+  ChatUsage,
+  ToolCall,
+} from './providers/types';
+import { readServerSentEvents } from './streaming';
+import { chatCircuitBreaker, CircuitBreaker } from './circuit-breaker';
+
+const RETRY_BASE_DELAY_MS = 500;
+const MAX_RETRY_AFTER_MS = 10000; // a longer Retry-After moves on to the next model instead of waiting
+
+interface ChatCompletionResponse {
+  id: string;
+  choices: Array<{
+    message: {
+      role: string;
+      content: string | null;
+      tool_calls?: WireToolCall[];
+    };
+    finish_reason: string;
+  }>;
+  usage?: WireUsage;
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+      /** Streamed in fragments: `index` says which call a fragment extends */
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+  }>;
+  /** Sent in a final chunk with no choices when `stream_options.include_usage` is set */
+  usage?: WireUsage | null;
+}
+
+interface WireUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface WireToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+/** A response whose body is still to be read, and how to cancel reading it */
+interface StartedResponse {
+  resp: Response;
+  abort: () => void;
+}
+
+interface ModelListResponse {
+  data?: Array<{ id: string }>;
+}
+
+export interface ChatBackendConfig {
+  baseUrl: string;
+  authStyle: ChatAuthStyle;
+  apiKeyEnv: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  /** Tried in order when the model fails */
+  fallbackModels: string[];
+  /** Per attempt until the response starts, then between chunks of a streamed reply */
+  timeoutMs: number;
+  /** Extra attempts per model on timeouts, network errors, 429 and 5xx */
+  maxRetries: number;
+  /** Sent with every request */
+  headers: Record<string, string>;
+}
+
+/**
+ * Comma-separated model list from an environment variable
+ */
+export function modelListFromEnv(name: string): string[] {
+  return (process.env[name] || '').split(',').map((model) => model.trim()).filter(Boolean);
+}
+
+/**
+ * Defaults for a generic backend such as a local llama.cpp server, Ollama or vLLM
+ */
+function configFromEnv(): ChatBackendConfig {
+  const authStyle = process.env.LLM_AUTH_STYLE as ChatAuthStyle | undefined;
+  return {
+    baseUrl: process.env.LLM_BASE_URL || 'http://localhost:8080/v1',
+    authStyle: authStyle || (process.env.LLM_API_KEY ? 'bearer' : 'none'),
+    apiKeyEnv: 'LLM_API_KEY',
+    model: process.env.LLM_MODEL || 'default',
+    temperature: Number(process.env.LLM_TEMPERATURE) || 0.7,
+    maxTokens: Number(process.env.LLM_MAX_TOKENS) || 500, // Keep responses concise for voice
+    fallbackModels: modelListFromEnv('LLM_FALLBACK_MODELS'),
+    timeoutMs: Number(process.env.LLM_TIMEOUT_MS) || 15000,
+    maxRetries: Number(process.env.LLM_MAX_RETRIES ?? 2),
+    headers: {},
+  };
+}
+
+/**
+ * Chat client for any endpoint that speaks the OpenAI chat completions API
+ */
+export class OpenAICompatibleClient implements ChatModelProvider {
+  readonly name: string;
+  private defaults: ChatBackendConfig;
+  private config: ChatBackendConfig;
+  private breaker: CircuitBreaker;
+
+  constructor(name = 'openai', defaults: ChatBackendConfig = configFromEnv(), breaker = chatCircuitBreaker) {
+    this.name = name;
+    this.defaults = defaults;
+    this.config = { ...defaults };
+    this.breaker = breaker;
+  }
+
+  getModel(): string {
+    return this.config.model;
+  }
+
+  getConfig(): Omit<ChatBackendConfig, 'headers'> {
+    const { headers: _headers, ...config } = this.config;
+    return config;
+  }
+
+  configure(settings: ChatSettings): void {
+    const defaults = this.defaults;
+    this.config = {
+      ...defaults,
+      baseUrl: settings.baseUrl ?? defaults.baseUrl,
+      authStyle: settings.authStyle ?? defaults.authStyle,
+      apiKeyEnv: settings.apiKeyEnv ?? defaults.apiKeyEnv,
+      model: settings.model ?? defaults.model,
+      fallbackModels: settings.fallbackModels ?? defaults.fallbackModels,
+      temperature: settings.temperature ?? defaults.temperature,
+      maxTokens: settings.maxTokens ?? defaults.maxTokens,
+    };
+    if (this.config.authStyle !== 'none' && !process.env[this.config.apiKeyEnv]) {
+      logger.warn(`${this.name}: ${this.config.apiKeyEnv} is not set, requests will be unauthenticated`);
+    }
+  }
+
+  async listModels(): Promise<string[]> {
+    const resp = await fetch(`${this.config.baseUrl}/models`, { headers: this.headers() });
+
+    if (!resp.ok) {
+      const errText = await resp.text().catch(() => '');
+      logger.error(`${this.name} model list error: ${resp.status} ${resp.statusText} - ${errText}`);
+      throw new Error(`Listing models failed: ${resp.status}`);
+    }
+
+    const data = await resp.json() as ModelListResponse;
+    return (data.data ?? []).map((m) => m.id).sort();
+  }
+
+  async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<string> {
+    const { resp } = await this.request(messages, options, false);
+
+    const data = await resp.json() as ChatCompletionResponse;
+    const message = data.choices[0]?.message;
+    const content = message?.content || '';
+    if (message?.tool_calls?.length) {
+      options.onToolCalls?.(message.tool_calls.map(({ id, function: fn }) => ({ id, name: fn.name, arguments: fn.arguments })));
+    }
+    if (data.usage) options.onUsage?.(toUsage(data.usage));
+
+    logger.info(`${this.name} response: ${content.substring(0, 100)}...`);
+    return content;
+  }
+
+  /**
+   * Stream the reply token by token. Aborting `options.signal` cancels the request.
+   */
+  async *chatStream(messages: ChatMessage[], options: ChatOptions = {}): AsyncGenerator<string> {
+    const { resp, abort } = await this.request(messages, options, true);
+    if (!resp.body) throw new Error(`${this.name} returned an empty stream`);
+
+    const body = withIdleTimeout(resp.body as unknown as AsyncIterable<Uint8Array>, this.config.timeoutMs, () => {
+      logger.error(`${this.name} stream stalled for ${this.config.timeoutMs}ms`);
+      abort();
+    });
+    const toolCalls: ToolCall[] = [];
+    for await (const data of readServerSentEvents(body)) {
+      let chunk: ChatCompletionChunk;
+      try {
+        chunk = JSON.parse(data);
+      } catch {
+        logger.warn(`Ignoring malformed ${this.name} stream chunk: ${data.substring(0, 100)}`);
+        continue;
+      }
+
+      const delta = chunk.choices?.[0]?.delta;
+      for (const part of delta?.tool_calls ?? []) {
+        const call = (toolCalls[part.index] ??= { id: '', name: '', arguments: '' });
+        if (part.id) call.id = part.id;
+        if (part.function?.name) call.name += part.function.name;
+        if (part.function?.arguments) call.arguments += part.function.arguments;
+      }
+      if (chunk.usage) options.onUsage?.(toUsage(chunk.usage));
+      if (delta?.content) yield delta.content;
+    }
+
+    const calls = toolCalls.filter((call) => call?.name);
+    if (calls.length) options.onToolCalls?.(calls);
+  }
+
+  private headers(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json', ...this.config.headers };
+    const apiKey = process.env[this.config.apiKeyEnv];
+    if (apiKey && this.config.authStyle === 'bearer') {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    } else if (apiKey && this.config.authStyle === 'api-key') {
+      headers['api-key'] = apiKey;
+    }
+    return headers;
+  }
+
+  /**
+   * Send the request to the configured model, then to each fallback in turn.
+   * Models whose circuit is open are skipped.
+   */
+  private async request(messages: ChatMessage[], options: ChatOptions, stream: boolean): Promise<StartedResponse> {
+    const models = [this.config.model, ...this.config.fallbackModels.filter((m) => m !== this.config.model)];
+    let lastError: unknown = null;
+
+    for (const model of models) {
+      const key = `${this.config.baseUrl} ${model}`;
+      if (!this.breaker.allowRequest(key)) {
+        logger.warn(`${this.name}: skipping ${model}, its circuit is open`);
+        continue;
+      }
+
+      try {
+        const started = await this.requestModel(model, key, messages, options, stream);
+        this.breaker.recordSuccess(key);
+        if (model !== this.config.model) logger.warn(`${this.name}: answered by fallback model ${model}`);
+        options.onModel?.(model);
+        return started;
+      } catch (err) {
+        if (options.signal?.aborted) throw err;
+        lastError = err;
+      }
+    }
+
+    throw lastError ?? new Error(`${this.name}: every model is unavailable`);
+  }
+
+  /**
+   * One model, retried with backoff on timeouts, network errors, 429 and 5xx.
+   * Errors that say the model is unhealthy count against its circuit.
+   */
+  private async requestModel(
+    model: string,
+    key: string,
+    messages: ChatMessage[],
+    options: ChatOptions,
+    stream: boolean
+  ): Promise<StartedResponse> {
+    for (let attempt = 0; ; attempt++) {
+      const canRetry = attempt < this.config.maxRetries;
+      // The caller's signal keeps working after the response starts, so it can cancel a stream
+      const timeout = new AbortController();
+      const timer = setTimeout(() => timeout.abort(), this.config.timeoutMs);
+      const cancel = () => timeout.abort();
+      options.signal?.addEventListener('abort', cancel);
+
+      let resp: Response;
+      try {
+        resp = await fetch(`${this.config.baseUrl}/chat/completions`, {
+          method: 'POST',
+          headers: this.headers(),
+          body: JSON.stringify({
+            model,
+            messages: messages.map(toWireMessage),
+            ...(options.tools?.length && {
+              tools: options.tools.map((tool) => ({ type: 'function', function: tool })),
+            }),
+            temperature: options.temperature ?? this.config.temperature,
+            max_tokens: options.maxTokens ?? this.config.maxTokens,
+            stream,
+            ...(stream && { stream_options: { include_usage: true } }),
+          }),
+          signal: timeout.signal,
+        });
+      } catch (err) {
+        options.signal?.removeEventListener('abort', cancel);
+        if (options.signal?.aborted) throw err;
+        const reason = timeout.signal.aborted ? `timed out after ${this.config.timeoutMs}ms` : `${err}`;
+        if (canRetry) {
+          const delay = backoff(attempt);
+          logger.warn(`${this.name} (${model}) ${reason}; retrying in ${delay}ms`);
+          await sleep(delay, options.signal);
+          continue;
+        }
+        this.breaker.recordFailure(key);
+        logger.error(`${this.name} (${model}) ${reason}`);
+        throw new Error(`${this.name} (${model}) ${reason}`);
+      } finally {
+        clearTimeout(timer);
+      }
+
+      if (resp.ok) return { resp, abort: cancel };
+      options.signal?.removeEventListener('abort', cancel);
+
+      const transient = resp.status === 429 || resp.status >= 500;
+      const delay = retryAfter(resp) ?? backoff(attempt);
+      if (transient && canRetry && delay <= MAX_RETRY_AFTER_MS) {
+        logger.warn(`${this.name} (${model}) returned ${resp.status}; retrying in ${delay}ms`);
+        await resp.text().catch(() => '');
+        await sleep(delay, options.signal);
+        continue;
+      }
+
+      if (transient) this.breaker.recordFailure(key);
+      const errText = await resp.text().catch(() => '');
+      logger.error(`${this.name} (${model}) error: ${resp.status} ${resp.statusText} - ${errText}`);
+      throw new Error(`${this.name} failed: ${resp.status}`);
+    }
+  }
+}
+
+/**
+ * The chunks of a response body, failing if none arrives for `idleMs`.
+ * `onIdle` should abort the request so the connection is released.
+ */
+async function* withIdleTimeout<T>(body: AsyncIterable<T>, idleMs: number, onIdle: () => void): AsyncGenerator<T> {
+  const iterator = body[Symbol.asyncIterator]();
+  try {
+    for (;;) {
+      let timer: NodeJS.Timeout | undefined;
+      const idle = new Promise<never>((_resolve, reject) => {
+        timer = setTimeout(() => {
+          onIdle();
+          reject(new Error(`Stream stalled: no data for ${idleMs}ms`));
+        }, idleMs);
+      });
+      let result: IteratorResult<T>;
+      try {
+        result = await Promise.race([iterator.next(), idle]);
+      } finally {
+        clearTimeout(timer);
+      }
+      if (result.done) return;
+      yield result.value;
+    }
+  } finally {
+    // A stalled read may never settle, so the body is released without waiting on it
+    void Promise.resolve(iterator.return?.()).catch(() => {});
+  }
+}
+
+function toUsage(usage: WireUsage): ChatUsage {
+  return { promptTokens: usage.prompt_tokens ?? 0, completionTokens: usage.completion_tokens ?? 0 };
+}
+
+/**
+ * Exponential backoff with jitter so retries from many sessions spread out
+ */
+function backoff(attempt: number): number {
+  return RETRY_BASE_DELAY_MS * Math.pow(2, attempt) + Math.floor(Math.random() * RETRY_BASE_DELAY_MS);
+}
+
+/**
+ * Retry-After in milliseconds, given as seconds or an HTTP date
+ */
+function retryAfter(resp: Response): number | null {
+  const header = resp.headers?.get('retry-after');
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new Error('aborted'));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Tool calls and results use the API's snake_case fields
+ */
+function toWireMessage(message: ChatMessage): Record<string, unknown> {
+  if (message.role === 'tool') {
+    return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+  }
+  if (message.toolCalls?.length) {
+    return {
+      role: 'assistant',
+      content: message.content || null,
+      tool_calls: message.toolCalls.map(({ id, name, arguments: args }) => ({
+        id,
+        type: 'function',
+        function: { name, arguments: args },
+      })),
+    };
+  }
+  return { role: message.role, content: message.content };
+}
@@ -0,0 +1,127 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger';
+
+/**
+ * A character the bot can play. `systemPrompt` is a template; see renderSystemPrompt.
+ */
+export interface Persona {
+  name: string;
+  description?: string;
+  systemPrompt: string;
+  /**
+   * TTS voice per provider name, e.g. a Deepgram Aura model, Piper voice file
+   * or espeak voice. `<provider>:<language>` keys, e.g. `deepgram:es`, pick
+   * the voice for replies in that language.
+   */
+  voices?: Record<string, string>;
+  temperature?: number;
+  /** Caps reply length */
+  maxTokens?: number;
+}
+
+/** Values available to `{{name}}` placeholders in a persona's system prompt */
+export interface PromptVariables {
+  guild?: string;
+  channel?: string;
+  participants?: string[];
+}
+
+export const DEFAULT_PERSONA: Persona = {
+  name: 'redbot',
+  description: 'Helpful, concise voice assistant',
+  systemPrompt:
+    'You are a helpful voice assistant in a Discord voice channel. Keep responses concise and conversational, suitable for text-to-speech. Avoid using markdown or special formatting. User messages are prefixed with the name of the person speaking.',
+};
+
+const PERSONA_NAME = /^[a-z0-9][a-z0-9_-]*$/;
+
+/**
+ * Fill in `{{guild}}`, `{{channel}}`, `{{participants}}`, `{{date}}` and
+ * `{{persona}}`. Unknown placeholders are left as written so typos show up.
+ */
+export function renderSystemPrompt(persona: Persona, variables: PromptVariables = {}, now = new Date()): string {
+  const values: Record<string, string> = {
+    guild: variables.guild ?? 'this server',
+    channel: variables.channel ?? 'the voice channel',
+    participants: variables.participants?.length ? variables.participants.join(', ') : 'nobody yet',
+    date: now.toDateString(),
+    persona: persona.name,
+  };
+  return persona.systemPrompt.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => values[key] ?? match);
+}
+
+/**
+ * Check a persona definition read from disk. Returns an error message, or null if it is usable.
+ */
+export function validatePersona(value: any): string | null {
+  if (!value || typeof value !== 'object') return 'not an object';
+  if (typeof value.name !== 'string' || !PERSONA_NAME.test(value.name)) {
+    return 'name must be lowercase letters, digits, "-" or "_"';
+  }
+  if (typeof value.systemPrompt !== 'string' || !value.systemPrompt.trim()) return 'systemPrompt is required';
+  if (
+    value.voices !== undefined &&
+    (typeof value.voices !== 'object' || value.voices === null || Object.values(value.voices).some((v) => typeof v !== 'string'))
+  ) {
+    return 'voices must map TTS provider names to voice names';
+  }
+  if (value.temperature !== undefined && !(typeof value.temperature === 'number' && value.temperature >= 0 && value.temperature <= 2)) {
+    return 'temperature must be between 0 and 2';
+  }
+  if (value.maxTokens !== undefined && !(Number.isInteger(value.maxTokens) && value.maxTokens > 0)) {
+    return 'maxTokens must be a positive integer';
+  }
+  return null;
+}
+
+/**
+ * The built-in persona plus every `*.json` definition in a directory, so
+ * personas can be versioned alongside the code. A file may override the
+ * built-in one by reusing its name.
+ */
+export class PersonaLibrary {
+  private dir: string;
+  private personas: Map<string, Persona> = new Map();
+
+  constructor(dir = process.env.PERSONAS_DIR || 'personas') {
+    this.dir = path.resolve(dir);
+    this.reload();
+  }
+
+  /**
+   * Re-read the definitions directory. Invalid files are logged and skipped.
+   */
+  reload(): void {
+    this.personas = new Map([[DEFAULT_PERSONA.name, DEFAULT_PERSONA]]);
+    if (!fs.existsSync(this.dir)) return;
+
+    for (const file of fs.readdirSync(this.dir).filter((f) => f.endsWith('.json')).sort()) {
+      const filePath = path.join(this.dir, file);
+      try {
+        const definition = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        const error = validatePersona(definition);
+        if (error) {
+          logger.warn(`Skipping persona ${filePath}: ${error}`);
+          continue;
+        }
+        this.personas.set(definition.name, definition as Persona);
+      } catch (err) {
+        logger.error(`Failed to load persona ${filePath}: ${err}`);
+      }
+    }
+    logger.info(`Loaded ${this.personas.size} persona(s) from ${this.dir}`);
+  }
+
+  get(name: string): Persona | undefined {
+    return this.personas.get(name.toLowerCase());
+  }
+
+  list(): Persona[] {
+    return Array.from(this.personas.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  getDefault(): Persona {
+    return this.get(process.env.DEFAULT_PERSONA || DEFAULT_PERSONA.name) ?? DEFAULT_PERSONA;
+  }
+}
@@ -1,28 +1,101 @@
 import { logger } from '../utils/logger';
-import fetch from 'cross-fetch';
-import { OpenRouterClient } from './openrouter';
-import { DeepgramSTT } from './deepgram-stt';
+import { providerRegistry } from './providers/registry';
+import {
+  ChatMessage,
+  ChatModelProvider,
+  ChatOptions,
+  PipelineProviders,
+  SpeechToTextEvent,
+  SpeechToTextProvider,
+  SpeechToTextStream,
+  TextToSpeechProvider,
+  ToolCall,
+} from './providers/types';
+import { audioStream, SentenceChunker } from './streaming';
+import { ConversationHistory, HistoryEntry, tokenBudgetFor } from './history';
+import { TurnTrace } from './latency';
+import { DEFAULT_PERSONA, Persona, PromptVariables, renderSystemPrompt } from './persona';
+import { createTimeTool, ToolRegistry } from './tools';
+import { AUTO_LANGUAGE, baseLanguage, LANGUAGE_VOICES, languageInstruction, languageName } from './language';
+import { UsageAmounts, UsageEndpoint, UsageMeter } from './usage';
+import { VoiceActivityDetector } from './vad';
+import { Readable } from 'stream';
 
-const DEFAULT_TTS_MODEL = process.env.DG_TTS_MODEL || 'aura-asteria-en';
-const DEFAULT_SAMPLE_RATE = 16000; // linear16 mono
+const FALLBACK_RESPONSE = "I'm having trouble processing that right now. Please try again.";
+
+const SUMMARY_PROMPT =
+  'Summarize this voice chat for your own memory in under 120 words. Keep names, facts, decisions and open questions; drop small talk. If a previous summary is given, merge it in. Reply with the summary only.';
+const MAX_SUMMARY_CHARS = 1500; // cap on the plain-text fallback when the model can't summarize
+const MAX_TOOL_ROUNDS = 3; // model calls that may request tools before the reply has to stand
+const PCM_BYTES_PER_SECOND = 32000; // 16kHz mono linear16
+
+export interface Speaker {
+  userId: string;
+  displayName: string;
+  /** Language the speaker pinned, or `auto`; otherwise the STT's configured language is used */
+  language?: string;
+}
+
+export interface SpeakerTranscript {
+  speaker: Speaker;
+  transcript: string;
+  isFinal: boolean;
+  /** The STT heard the speaker pause after this text (an endpoint) */
+  speechFinal: boolean;
+  confidence: number;
+  receivedAt: number;
+  /** The speaker's pinned or detected language, if known */
+  language?: string;
+}
+
+const UNKNOWN_SPEAKER: Speaker = { userId: 'unknown', displayName: 'Someone' };
 
 export class VoicePipeline {
-  private openrouter: OpenRouterClient;
-  private deepgramSTT: DeepgramSTT;
-  private conversationContext: string[] = [];
-  private maxContextLength = 10; // Keep last 5 exchanges
+  private sttProvider: SpeechToTextProvider;
+  private chatProvider: ChatModelProvider;
+  private ttsProvider: TextToSpeechProvider;
+  private sharedStream: SpeechToTextStream;
+  private speakerStreams: Map<string, { speaker: Speaker; stt: SpeechToTextStream }> = new Map();
+  private transcriptionCallbacks: Array<(event: SpeakerTranscript) => void> = [];
+  private speechStartedCallbacks: Array<(speaker: Speaker) => void> = [];
+  private speechStoppedCallbacks: Array<(speaker: Speaker, endedAt: number) => void> = [];
+  private utteranceEndCallbacks: Array<(speaker: Speaker) => void> = [];
+  /** One detector per speaker; unattributed audio uses the '' key */
+  private vads: Map<string, VoiceActivityDetector> = new Map();
+  private vadEnabled = process.env.VAD_ENABLED !== 'false';
+  /** Language each speaker's STT last reported */
+  private detectedLanguages: Map<string, string> = new Map();
+  private history = new ConversationHistory();
+  private tools = new ToolRegistry();
+  private persona: Persona = DEFAULT_PERSONA;
+  private promptVariables: () => PromptVariables = () => ({
+    participants: this.getSpeakers().map(({ displayName }) => displayName),
+  });
+  private usage: UsageMeter | null = null;
+  private usageGuildId = '';
   private verbose = false;
   private audioStats = {
     totalBytes: 0,
     packetsProcessed: 0,
     lastPacketTime: 0,
     emptyPackets: 0,
-    silentPackets: 0
+    silentPackets: 0,
+    sentBytes: 0
   };
 
-  constructor() {
-    this.openrouter = new OpenRouterClient();
-    this.deepgramSTT = new DeepgramSTT();
+  /**
+   * Stages not supplied are created from config via the provider registry
+   */
+  constructor(providers: Partial<PipelineProviders> = {}) {
+    const resolved = providerRegistry.resolve(providers);
+    this.sttProvider = resolved.stt;
+    this.chatProvider = resolved.chat;
+    this.ttsProvider = resolved.tts;
+
+    this.tools.register(createTimeTool());
+
+    this.sharedStream = this.sttProvider.createStream();
+    this.sharedStream.onEvent((event) => this.handleSTTEvent(UNKNOWN_SPEAKER, event));
     
     // Check for verbose mode from environment
     this.verbose = process.env.VERBOSE === 'true' || (process.env.DEBUG?.includes('pipeline') ?? false);
@@ -41,21 +114,277 @@ export class VoicePipeline {
     return { ...this.audioStats };
   }
 
+  /**
+   * Meter this pipeline's STT, chat and TTS use against a guild
+   */
+  setUsageMeter(meter: UsageMeter | null, guildId = ''): void {
+    this.usage = meter;
+    this.usageGuildId = guildId;
+  }
+
   async connect(): Promise<void> {
-    await this.deepgramSTT.connect();
-    logger.info('Voice pipeline connected');
+    await this.sharedStream.connect();
+    this.meterListen(UNKNOWN_SPEAKER.userId, this.sharedStream, { requests: 1 });
+    await this.ttsProvider.connect?.();
+    logger.info(`Voice pipeline connected (stt: ${this.sttProvider.name}, llm: ${this.chatProvider.name}, tts: ${this.ttsProvider.name})`);
   }
 
   async disconnect(): Promise<void> {
-    this.deepgramSTT.disconnect();
+    this.sharedStream.disconnect();
+    for (const { stt } of this.speakerStreams.values()) {
+      stt.disconnect();
+    }
+    this.speakerStreams.clear();
+    for (const vad of this.vads.values()) {
+      vad.reset();
+    }
+    this.vads.clear();
+    this.ttsProvider.disconnect?.();
     logger.info('Voice pipeline disconnected');
   }
 
-  getSTTClient(): DeepgramSTT {
-    return this.deepgramSTT;
+  /**
+   * STT client for a speaker, or the shared client used for unattributed audio
+   */
+  getSTTClient(userId?: string): SpeechToTextStream {
+    return (userId && this.speakerStreams.get(userId)?.stt) || this.sharedStream;
+  }
+
+  getTTSConnectionState(): string {
+    return this.ttsProvider.getConnectionState?.() ?? 'request per utterance';
+  }
+
+  getChatProvider(): ChatModelProvider {
+    return this.chatProvider;
+  }
+
+  /**
+   * Swap the chat model, e.g. after a guild changes its model settings
+   */
+  setChatProvider(chat: ChatModelProvider): void {
+    this.chatProvider = chat;
+    logger.info(`Chat provider set to ${chat.name}${chat.getModel ? ` (${chat.getModel()})` : ''}`);
+  }
+
+  /**
+   * Tools the chat model may call while replying
+   */
+  getTools(): ToolRegistry {
+    return this.tools;
+  }
+
+  getPersona(): Persona {
+    return this.persona;
+  }
+
+  /**
+   * Switch persona: system prompt, voice and sampling settings all change from the next reply
+   */
+  setPersona(persona: Persona): void {
+    this.persona = persona;
+    this.ttsProvider.setVoice?.(persona.voices?.[this.ttsProvider.name] ?? null);
+    logger.info(`Persona set to ${persona.name}`);
+  }
+
+  /**
+   * Where the `{{guild}}`, `{{channel}}` and `{{participants}}` prompt values come from
+   */
+  setPromptVariables(getter: () => PromptVariables): void {
+    this.promptVariables = getter;
+  }
+
+  /**
+   * The current persona's system prompt with its variables filled in
+   */
+  getSystemPrompt(): string {
+    return renderSystemPrompt(this.persona, this.promptVariables());
+  }
+
+  /**
+   * The system prompt for a turn, asking for a reply in the first speaker's language
+   */
+  private systemPromptFor(speakers: Speaker[]): string {
+    const prompt = this.getSystemPrompt();
+    const instruction = speakers.length ? languageInstruction(this.getLanguage(speakers[0].userId) ?? speakers[0].language) : null;
+    return instruction ? `${prompt}\n\n${instruction}` : prompt;
+  }
+
+  private chatOptions(): ChatOptions {
+    return { temperature: this.persona.temperature, maxTokens: this.persona.maxTokens };
+  }
+
+  getProviderNames(): { stt: string; chat: string; tts: string } {
+    return { stt: this.sttProvider.name, chat: this.chatProvider.name, tts: this.ttsProvider.name };
+  }
+
+  /**
+   * Open a dedicated STT stream for a speaker so overlapping speech stays separated
+   */
+  async addSpeaker(speaker: Speaker): Promise<void> {
+    const existing = this.speakerStreams.get(speaker.userId);
+    if (existing) {
+      existing.speaker.displayName = speaker.displayName;
+      return;
+    }
+
+    const entry = { speaker: { ...speaker }, stt: this.sttProvider.createStream({ language: speaker.language }) };
+    entry.stt.onEvent((event) => this.handleSTTEvent(entry.speaker, event));
+    this.speakerStreams.set(speaker.userId, entry);
+
+    try {
+      await entry.stt.connect();
+      this.meterListen(speaker.userId, entry.stt, { requests: 1 });
+      logger.info(`Opened STT stream for ${speaker.displayName} (${speaker.userId})`);
+    } catch (err) {
+      logger.error(`Failed to open STT stream for ${speaker.displayName}: ${err}`);
+      entry.stt.disconnect();
+      if (this.speakerStreams.get(speaker.userId) === entry) {
+        this.speakerStreams.delete(speaker.userId);
+      }
+    }
+  }
+
+  removeSpeaker(userId: string): void {
+    const entry = this.speakerStreams.get(userId);
+    if (!entry) return;
+
+    entry.stt.disconnect();
+    this.speakerStreams.delete(userId);
+    this.detectedLanguages.delete(userId);
+    this.vads.get(userId)?.reset();
+    this.vads.delete(userId);
+    logger.info(`Closed STT stream for ${entry.speaker.displayName} (${userId})`);
+  }
+
+  /**
+   * Pin a speaker's language, or pass null to go back to the default. Their
+   * STT stream is reopened for the new language.
+   */
+  async setSpeakerLanguage(userId: string, language: string | null): Promise<void> {
+    const entry = this.speakerStreams.get(userId);
+    if (!entry) return;
+
+    const speaker = { ...entry.speaker, language: language ?? undefined };
+    this.removeSpeaker(userId);
+    await this.addSpeaker(speaker);
+    logger.info(`Language for ${speaker.displayName} set to ${language ?? 'the default'}`);
+  }
+
+  /**
+   * A speaker's pinned language, else the one their STT detected
+   */
+  getLanguage(userId: string): string | undefined {
+    const pinned = this.speakerStreams.get(userId)?.speaker.language;
+    if (pinned && pinned !== AUTO_LANGUAGE) return pinned;
+    return this.detectedLanguages.get(userId);
+  }
+
+  getSpeakers(): Speaker[] {
+    return Array.from(this.speakerStreams.values()).map(({ speaker }) => ({ ...speaker }));
+  }
+
+  onTranscription(callback: (event: SpeakerTranscript) => void): void {
+    this.transcriptionCallbacks.push(callback);
+  }
+
+  onSpeechStarted(callback: (speaker: Speaker) => void): void {
+    this.speechStartedCallbacks.push(callback);
+  }
+
+  /**
+   * The STT saw a long enough gap after a speaker's last word to call the utterance over
+   */
+  onUtteranceEnd(callback: (speaker: Speaker) => void): void {
+    this.utteranceEndCallbacks.push(callback);
+  }
+
+  /**
+   * Voice activity detection saw a speaker stop; `endedAt` is their last speech frame
+   */
+  onSpeechStopped(callback: (speaker: Speaker, endedAt: number) => void): void {
+    this.speechStoppedCallbacks.push(callback);
+  }
+
+  isVadEnabled(): boolean {
+    return this.vadEnabled;
+  }
+
+  /**
+   * Noise floor per speaker, for diagnostics
+   */
+  getVadState(): Array<{ speaker: Speaker; speaking: boolean; noiseFloor: number }> {
+    return Array.from(this.vads.entries()).map(([userId, vad]) => ({
+      speaker: this.resolveSpeaker(userId),
+      speaking: vad.isSpeaking(),
+      noiseFloor: vad.getNoiseFloor(),
+    }));
+  }
+
+  private resolveSpeaker(userId: string): Speaker {
+    return (userId && this.speakerStreams.get(userId)?.speaker) || UNKNOWN_SPEAKER;
   }
 
-  async processAudio(audioBuffer: Buffer): Promise<string> {
+  private getVad(userId = ''): VoiceActivityDetector {
+    let vad = this.vads.get(userId);
+    if (vad) return vad;
+
+    vad = new VoiceActivityDetector();
+    vad.onSpeechStart(() => {
+      if (this.verbose) logger.info(`[VERBOSE] Speech started: ${this.resolveSpeaker(userId).displayName}`);
+      this.emitSpeechStarted(this.resolveSpeaker(userId));
+    });
+    vad.onSpeechEnd((endedAt) => {
+      // Nothing more is coming, so have the STT finish the utterance now
+      this.getSTTClient(userId || undefined).finalize?.();
+      const speaker = this.resolveSpeaker(userId);
+      if (this.verbose) logger.info(`[VERBOSE] Speech stopped: ${speaker.displayName}`);
+      for (const callback of this.speechStoppedCallbacks) {
+        callback(speaker, endedAt);
+      }
+    });
+    this.vads.set(userId, vad);
+    return vad;
+  }
+
+  private emitSpeechStarted(speaker: Speaker): void {
+    for (const callback of this.speechStartedCallbacks) {
+      callback(speaker);
+    }
+  }
+
+  private handleSTTEvent(speaker: Speaker, event: SpeechToTextEvent): void {
+    if (event.type === 'speech_started') {
+      this.emitSpeechStarted(speaker);
+    } else if (event.type === 'utterance_end') {
+      for (const callback of this.utteranceEndCallbacks) {
+        callback(speaker);
+      }
+    } else {
+      if (event.language && event.transcript && event.type !== 'interim') {
+        this.noteLanguage(speaker, event.language);
+      }
+      const transcript: SpeakerTranscript = {
+        speaker,
+        transcript: event.transcript,
+        isFinal: event.type !== 'interim',
+        speechFinal: event.type === 'speech_final',
+        confidence: event.confidence,
+        receivedAt: event.receivedAt,
+        language: this.getLanguage(speaker.userId),
+      };
+      for (const callback of this.transcriptionCallbacks) {
+        callback(transcript);
+      }
+    }
+  }
+
+  private noteLanguage(speaker: Speaker, language: string): void {
+    if (speaker === UNKNOWN_SPEAKER || this.detectedLanguages.get(speaker.userId) === language) return;
+    this.detectedLanguages.set(speaker.userId, language);
+    logger.info(`Detected ${languageName(language)} (${language}) for ${speaker.displayName}`);
+  }
+
+  async processAudio(audioBuffer: Buffer, userId?: string): Promise<string> {
     // Update stats
     this.audioStats.packetsProcessed++;
     this.audioStats.lastPacketTime = Date.now();
@@ -70,9 +399,9 @@ export class VoicePipeline {
     
     this.audioStats.totalBytes += audioBuffer.length;
     
-    // Check if buffer is silence (all zeros or very low values)
-    const isSilent = this.detectSilence(audioBuffer);
-    if (isSilent) {
+    // Only speech (plus pre-roll and hangover) is sent; keep-alives hold the STT connection open in between
+    const speech = this.vadEnabled ? this.getVad(userId).process(audioBuffer) : audioBuffer;
+    if (!speech) {
       this.audioStats.silentPackets++;
     }
     
@@ -82,12 +411,19 @@ export class VoicePipeline {
         `Total: ${this.audioStats.totalBytes} | Packets: ${this.audioStats.packetsProcessed} | ` +
         `Avg: ${Math.round(avgPacketSize)} | Empty: ${this.audioStats.emptyPackets} | ` +
         `Silent: ${this.audioStats.silentPackets} | ` +
-        `Is Silent: ${isSilent}`);
+        `Sent: ${this.audioStats.sentBytes}`);
     }
     
-    // Send audio to Deepgram STT
-    this.deepgramSTT.sendAudio(audioBuffer);
-    // Transcription results come via the onTranscription callback
+    if (speech) {
+      // Send audio to the speaker's STT stream
+      const stt = this.getSTTClient(userId);
+      stt.sendAudio(speech);
+      this.audioStats.sentBytes += speech.length;
+      this.meterListen(stt === this.sharedStream ? UNKNOWN_SPEAKER.userId : userId!, stt, {
+        seconds: speech.length / PCM_BYTES_PER_SECOND,
+      });
+    }
+    // Transcription results come via the onEvent callback
     return '';
   }
 
@@ -131,62 +467,236 @@ export class VoicePipeline {
     }
   }
 
-  async generateResponse(text: string): Promise<string> {
+  /**
+   * Record something that was said without generating a reply to it
+   */
+  addToContext(text: string, speakers: Speaker[] = []): void {
+    this.history.add('user', text, speakerNames(speakers));
+    this.compactHistory();
+  }
+
+  getHistory(): ConversationHistory {
+    return this.history;
+  }
+
+  /**
+   * History budget for the current chat model
+   */
+  getHistoryBudget(): number {
+    return tokenBudgetFor(this.chatProvider.getModel?.());
+  }
+
+  private compactHistory(): void {
+    void this.history.compact(this.getHistoryBudget(), (summary, entries) => this.summarize(summary, entries));
+  }
+
+  private async summarize(summary: string, entries: HistoryEntry[]): Promise<string> {
+    // User turns are already labelled with the speaker's name
+    const transcript = entries.map(({ role, content }) => (role === 'assistant' ? `Redbot: ${content}` : content)).join('\n');
+    try {
+      return await this.chatProvider.chat(
+        [
+          { role: 'system', content: SUMMARY_PROMPT },
+          { role: 'user', content: summary ? `Previous summary: ${summary}\n\nConversation:\n${transcript}` : transcript },
+        ],
+        { temperature: 0.3, maxTokens: 250, ...this.meterChat(UNKNOWN_SPEAKER.userId) }
+      );
+    } catch (err) {
+      logger.warn(`Failed to summarize conversation, keeping a plain excerpt: ${err}`);
+      return `${summary} ${transcript.replace(/\n/g, ' ')}`.trim().slice(-MAX_SUMMARY_CHARS);
+    }
+  }
+
+  async generateResponse(text: string, speakers: Speaker[] = []): Promise<string> {
     try {
-      // Add user input to context
-      this.conversationContext.push(text);
-      
-      // Generate response using OpenRouter
-      const response = await this.openrouter.generateResponse(text, this.conversationContext);
-      
-      // Add response to context
-      this.conversationContext.push(response);
-      
-      // Trim context if too long
-      if (this.conversationContext.length > this.maxContextLength) {
-        this.conversationContext = this.conversationContext.slice(-this.maxContextLength);
-      }
-      
+      this.history.add('user', text, speakerNames(speakers));
+      const response = await this.chatProvider.chat(this.history.toMessages(this.systemPromptFor(speakers)), {
+        ...this.chatOptions(),
+        ...this.meterChat(speakers[0]?.userId ?? UNKNOWN_SPEAKER.userId),
+      });
+      this.history.add('assistant', response);
+
       logger.info(`Generated response: ${response.substring(0, 100)}...`);
       return response;
     } catch (err) {
       logger.error(`Failed to generate response: ${err}`);
-      return "I'm having trouble processing that right now. Please try again.";
+      return FALLBACK_RESPONSE;
+    } finally {
+      this.compactHistory();
     }
   }
 
-  async synthesizeSpeech(text: string): Promise<Buffer> {
-    const apiKey = process.env.DEEPGRAM_API_KEY;
-    if (!apiKey) throw new Error('DEEPGRAM_API_KEY not set');
+  /**
+   * Generate a reply and yield it sentence by sentence while the model is still
+   * writing, so speech can start early. Tool calls are run and their results
+   * sent back until the model answers. Aborting `signal` cancels the model
+   * request; the sentences produced up to then stay in the context. Usage
+   * is metered against the first speaker.
+   */
+  async *streamResponse(text: string, signal?: AbortSignal, trace?: TurnTrace, speakers: Speaker[] = []): AsyncGenerator<string> {
+    this.history.add('user', text, speakerNames(speakers));
+    const messages = this.history.toMessages(this.systemPromptFor(speakers));
+    const chunker = new SentenceChunker();
+    const sentences: string[] = [];
+
+    try {
+      for (let round = 0; ; round++) {
+        const calls: ToolCall[] = [];
+        let written = '';
+        const options: ChatOptions = {
+          signal,
+          onToolCalls: (requested) => calls.push(...requested),
+          ...this.meterChat(speakers[0]?.userId ?? UNKNOWN_SPEAKER.userId, (model) => trace?.setModel(model)),
+        };
+        for await (const token of this.streamTokens(messages, options)) {
+          if (signal?.aborted) return;
+          trace?.mark('llm_first_token');
+          written += token;
+          for (const sentence of chunker.push(token)) {
+            sentences.push(sentence);
+            yield sentence;
+          }
+        }
+
+        // Anything said before the tool calls is spoken while they run
+        const rest = chunker.flush();
+        if (rest && !signal?.aborted) {
+          sentences.push(rest);
+          yield rest;
+        }
+        if (calls.length === 0 || signal?.aborted) break;
+        if (round >= MAX_TOOL_ROUNDS) {
+          logger.warn(`[turn ${trace?.id ?? '-'}] Stopped after ${MAX_TOOL_ROUNDS} rounds of tool calls`);
+          break;
+        }
+
+        messages.push({ role: 'assistant', content: written, toolCalls: calls });
+        for (const call of calls) {
+          const result = await this.tools.run(call, { turnId: trace?.id, userId: speakers[0]?.userId, signal });
+          messages.push({ role: 'tool', toolCallId: call.id, content: result });
+        }
+      }
+    } catch (err) {
+      if (signal?.aborted) {
+        logger.info(`Response generation cancelled after ${sentences.length} sentence(s)`);
+      } else {
+        logger.error(`Failed to generate response: ${err}`);
+        if (sentences.length === 0) yield FALLBACK_RESPONSE;
+      }
+    } finally {
+      trace?.mark('llm_done');
+      if (sentences.length > 0) {
+        const response = sentences.join(' ');
+        this.history.add('assistant', response);
+        logger.info(`Generated response: ${response.substring(0, 100)}...`);
+      }
+      this.compactHistory();
+    }
+  }
 
-    // Use Deepgram Speak REST API to get linear16 PCM @ 16kHz mono
-    const url = `https://api.deepgram.com/v1/speak?model=${encodeURIComponent(
-      DEFAULT_TTS_MODEL
-    )}&format=linear16&sample_rate=${DEFAULT_SAMPLE_RATE}`;
+  private async *streamTokens(messages: ChatMessage[], extra: ChatOptions): AsyncGenerator<string> {
+    const tools = this.tools.definitions();
+    const options: ChatOptions = { ...this.chatOptions(), tools: tools.length ? tools : undefined, ...extra };
+    if (this.chatProvider.chatStream) {
+      yield* this.chatProvider.chatStream(messages, options);
+      return;
+    }
+    yield await this.chatProvider.chat(messages, options);
+  }
 
-    const resp = await fetch(url, {
-      method: 'POST',
-      headers: {
-        Authorization: `Token ${apiKey}`,
-        'Content-Type': 'application/json',
+  /**
+   * Chat callbacks that meter each request and its tokens against `userId`.
+   * `onModel` still receives the model that answered.
+   */
+  private meterChat(userId: string, onModel?: (model: string) => void): ChatOptions {
+    let model = this.chatProvider.getModel?.() ?? this.chatProvider.name;
+    return {
+      onModel: (answered) => {
+        model = answered;
+        this.meter(userId, 'chat', model, { requests: 1 });
+        onModel?.(answered);
+      },
+      onUsage: ({ promptTokens, completionTokens }) => {
+        this.meter(userId, 'chat', model, { tokensIn: promptTokens, tokensOut: completionTokens });
       },
-      body: JSON.stringify({ text }),
+    };
+  }
+
+  private meterListen(userId: string, stt: SpeechToTextStream, amounts: UsageAmounts): void {
+    this.meter(userId, 'listen', stt.getModel?.() ?? this.sttProvider.name, amounts, stt.getFeatures?.());
+  }
+
+  private meterSpeak(userId: string, text: string, voice?: string): void {
+    this.meter(userId, 'speak', voice ?? this.ttsProvider.getModel?.() ?? this.ttsProvider.name, {
+      ttsCharacters: text.length,
+      requests: 1,
     });
+  }
 
-    if (!resp.ok) {
-      const errText = await resp.text().catch(() => '');
-      logger.error(`Deepgram Speak error: ${resp.status} ${resp.statusText} - ${errText}`);
-      throw new Error(`Deepgram Speak failed: ${resp.status}`);
-    }
+  private meter(userId: string, endpoint: UsageEndpoint, model: string, amounts: UsageAmounts, features?: string[]): void {
+    this.usage?.record({ guildId: this.usageGuildId, userId, endpoint, model, features }, amounts);
+  }
+
+  async synthesizeSpeech(text: string, userId = UNKNOWN_SPEAKER.userId): Promise<Buffer> {
+    if (!text.trim()) return Buffer.alloc(0);
+    const voice = this.voiceFor(userId);
+    this.meterSpeak(userId, text, voice);
+    return this.ttsProvider.synthesize(text, voice);
+  }
+
+  /**
+   * PCM for `text` as it is synthesized, so playback can start on the first chunk.
+   * `userId` is who the speech is for; it picks the voice for their language
+   * and is metered for the usage.
+   */
+  streamSpeech(text: string, userId = UNKNOWN_SPEAKER.userId): Readable {
+    if (!text.trim()) return audioStream(Promise.resolve(Buffer.alloc(0)));
+    const voice = this.voiceFor(userId);
+    this.meterSpeak(userId, text, voice);
+    if (this.ttsProvider.synthesizeStream) return this.ttsProvider.synthesizeStream(text, voice);
+    return audioStream(this.ttsProvider.synthesize(text, voice));
+  }
+
+  /**
+   * Voice for a speaker's language: the persona's `<provider>:<language>`
+   * voice, else TTS_LANGUAGE_VOICES. Undefined keeps the current voice.
+   */
+  private voiceFor(userId: string): string | undefined {
+    const language = this.getLanguage(userId);
+    if (!language) return undefined;
+    const base = baseLanguage(language);
+    return this.persona.voices?.[`${this.ttsProvider.name}:${base}`] ?? LANGUAGE_VOICES.get(base);
+  }
+
+  /**
+   * Drop speech the TTS provider is still generating
+   */
+  clearSpeech(): void {
+    this.ttsProvider.clear?.();
+  }
 
-    const arrayBuf = await resp.arrayBuffer();
-    const pcm = Buffer.from(new Uint8Array(arrayBuf));
-    logger.info(`synthesizeSpeech() received ${pcm.length} bytes PCM from Deepgram`);
-    return pcm;
+  /**
+   * Replace a response in the context with the part that was actually heard
+   */
+  markInterrupted(fullText: string, spokenText: string): void {
+    const heard = spokenText.trim();
+    const replaced = this.history.replaceLastResponse(
+      fullText,
+      heard ? `${heard}... [interrupted]` : '[interrupted before speaking]'
+    );
+    if (!replaced) return;
+    logger.info(`Marked response as interrupted after: "${heard.substring(0, 50)}"`);
   }
 
   clearContext(): void {
-    this.conversationContext = [];
+    this.history.clear();
     logger.info('Conversation context cleared');
   }
-}
\ No newline at end of file
+}
+
+/**
+ * History label for the people a turn came from
+ */
+function speakerNames(speakers: Speaker[]): string | undefined {
+  return speakers.map(({ displayName }) => displayName).join(', ') || undefined;
+}
@@ -0,0 +1,121 @@
+import fetch from 'cross-fetch';
+import { logger } from '../../utils/logger';
+import { Readable } from 'stream';
+import { DeepgramSTT } from '../deepgram-stt';
+import { DeepgramTTS } from '../deepgram-tts';
+import { audioStream } from '../streaming';
+import { SpeechToTextProvider, SpeechToTextStream, SpeechToTextStreamOptions, TextToSpeechProvider } from './types';
+
+const DEFAULT_TTS_MODEL = process.env.DG_TTS_MODEL || 'aura-asteria-en';
+const DEFAULT_SAMPLE_RATE = 16000; // linear16 mono
+const STREAMING_TTS = process.env.DG_TTS_STREAMING !== 'false';
+
+export class DeepgramSpeechToTextProvider implements SpeechToTextProvider {
+  readonly name = 'deepgram';
+
+  createStream(options: SpeechToTextStreamOptions = {}): SpeechToTextStream {
+    return new DeepgramSTT({ language: options.language });
+  }
+}
+
+/**
+ * Streams speech over the Speak WebSocket, falling back to the REST endpoint
+ * while the socket is down (or when DG_TTS_STREAMING=false)
+ */
+export class DeepgramTextToSpeechProvider implements TextToSpeechProvider {
+  readonly name = 'deepgram';
+  private apiKey: string;
+  private defaultModel: string;
+  private model: string;
+  private socket: DeepgramTTS | null = null;
+
+  constructor(model = DEFAULT_TTS_MODEL) {
+    const apiKey = process.env.DEEPGRAM_API_KEY;
+    if (!apiKey) throw new Error('DEEPGRAM_API_KEY not set');
+
+    this.apiKey = apiKey;
+    this.defaultModel = model;
+    this.model = model;
+  }
+
+  /**
+   * Switch Aura voice. The socket is bound to one model, so an open one is replaced.
+   */
+  setVoice(voice: string | null): void {
+    const model = voice || this.defaultModel;
+    if (model === this.model) return;
+
+    this.model = model;
+    if (this.socket) {
+      this.disconnect();
+      void this.connect();
+    }
+  }
+
+  getModel(): string {
+    return this.model;
+  }
+
+  async connect(): Promise<void> {
+    if (!STREAMING_TTS || this.socket) return;
+
+    this.socket = new DeepgramTTS({ model: this.model, sample_rate: DEFAULT_SAMPLE_RATE });
+    try {
+      await this.socket.connect();
+    } catch (err) {
+      // The socket keeps retrying in the background; REST covers the gap
+      logger.warn(`Deepgram Speak WebSocket unavailable, using REST: ${err}`);
+    }
+  }
+
+  disconnect(): void {
+    this.socket?.disconnect();
+    this.socket = null;
+  }
+
+  getConnectionState(): string {
+    if (!this.socket) return 'rest';
+    return this.socket.isReady() ? this.socket.getConnectionState() : `${this.socket.getConnectionState()} (using rest)`;
+  }
+
+  /**
+   * The socket is bound to the current voice; another voice goes over REST
+   */
+  synthesizeStream(text: string, voice?: string): Readable {
+    if (this.socket?.isReady() && (!voice || voice === this.model)) {
+      return this.socket.speak(text);
+    }
+    return audioStream(this.synthesize(text, voice));
+  }
+
+  clear(): void {
+    this.socket?.clear();
+  }
+
+  async synthesize(text: string, voice = this.model): Promise<Buffer> {
+    // Use Deepgram Speak REST API to get linear16 PCM @ 16kHz mono
+    const url = `https://api.deepgram.com/v1/speak?model=${encodeURIComponent(
+      voice
+    )}&format=linear16&sample_rate=${DEFAULT_SAMPLE_RATE}`;
+
+    const resp = await fetch(url, {
+      method: 'POST',
+      headers: {
+        Authorization: `Token ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ text }),
+    });
+
+    if (!resp.ok) {
+      const errText = await resp.text().catch(() => '');
+      logger.error(`Deepgram Speak error: ${resp.status} ${resp.statusText} - ${errText}`);
+      throw new Error(`Deepgram Speak failed: ${resp.status}`);
+    }
+
+    const arrayBuf = await resp.arrayBuffer();
+    const pcm = Buffer.from(new Uint8Array(arrayBuf));
+    logger.info(`synthesizeSpeech() received ${pcm.length} bytes PCM from Deepgram`);
+    return pcm;
+  }
+}
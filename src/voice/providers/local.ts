@@ -0,0 +1,138 @@
+import { spawn } from 'child_process';
+import { existsSync } from 'fs';
+import { basename } from 'path';
+import { Readable } from 'stream';
+import prism from 'prism-media';
+import { logger } from '../../utils/logger';
+import { WhisperSTT } from '../whisper-stt';
+import { SpeechToTextProvider, SpeechToTextStream, SpeechToTextStreamOptions, TextToSpeechProvider } from './types';
+
+/**
+ * Offline speech engines that run as local binaries: whisper.cpp for STT,
+ * Piper or espeak-ng for TTS. Engine output is resampled to 16kHz mono
+ * linear16 with FFmpeg.
+ */
+
+export class WhisperSpeechToTextProvider implements SpeechToTextProvider {
+  readonly name = 'whisper';
+
+  createStream(options: SpeechToTextStreamOptions = {}): SpeechToTextStream {
+    // whisper.cpp takes bare language codes, e.g. `pt` rather than `pt-BR`
+    return new WhisperSTT({ language: options.language?.split('-')[0] });
+  }
+}
+
+export class PiperTextToSpeechProvider implements TextToSpeechProvider {
+  readonly name = 'piper';
+  private bin = process.env.PIPER_BIN || 'piper';
+  private defaultModel: string;
+  private model: string;
+  private sampleRate = Number(process.env.PIPER_SAMPLE_RATE) || 22050;
+
+  constructor() {
+    const model = process.env.PIPER_MODEL;
+    if (!model) throw new Error('PIPER_MODEL not set');
+    this.defaultModel = model;
+    this.model = model;
+  }
+
+  /**
+   * Use another voice file; it must share PIPER_SAMPLE_RATE with the default one
+   */
+  setVoice(voice: string | null): void {
+    const model = voice || this.defaultModel;
+    if (!existsSync(model)) {
+      logger.warn(`Piper voice not found, keeping ${this.model}: ${model}`);
+      return;
+    }
+    this.model = model;
+  }
+
+  getModel(): string {
+    return basename(this.model, '.onnx');
+  }
+
+  async connect(): Promise<void> {
+    if (!existsSync(this.model)) {
+      logger.error(`Piper voice not found: ${this.model}`);
+      throw new Error(`Piper voice not found: ${this.model}`);
+    }
+  }
+
+  synthesizeStream(text: string, voice?: string): Readable {
+    const model = voice && existsSync(voice) ? voice : this.model;
+    // Piper writes raw PCM at the voice's own sample rate
+    return runEngine(this.bin, ['--model', model, '--output_raw'], text, [
+      '-f', 's16le', '-ar', String(this.sampleRate), '-ac', '1',
+    ]);
+  }
+
+  synthesize(text: string, voice?: string): Promise<Buffer> {
+    return collect(this.synthesizeStream(text, voice));
+  }
+}
+
+export class EspeakTextToSpeechProvider implements TextToSpeechProvider {
+  readonly name = 'espeak';
+  private bin = process.env.ESPEAK_BIN || 'espeak-ng';
+  private defaultVoice = process.env.ESPEAK_VOICE || 'en';
+  private voice = this.defaultVoice;
+
+  setVoice(voice: string | null): void {
+    this.voice = voice || this.defaultVoice;
+  }
+
+  getModel(): string {
+    return this.voice;
+  }
+
+  synthesizeStream(text: string, voice = this.voice): Readable {
+    // espeak-ng writes a WAV file, which FFmpeg detects on its own
+    return runEngine(this.bin, ['--stdout', '--stdin', '-v', voice], text, []);
+  }
+
+  synthesize(text: string, voice?: string): Promise<Buffer> {
+    return collect(this.synthesizeStream(text, voice));
+  }
+}
+
+/**
+ * Feed `text` to a TTS binary on stdin and return its audio as 16kHz mono PCM.
+ * Destroying the returned stream stops the engine.
+ */
+function runEngine(bin: string, args: string[], text: string, inputFormat: string[]): Readable {
+  const engine = spawn(bin, args, { stdio: ['pipe', 'pipe', 'ignore'] });
+  const resampler = new prism.FFmpeg({
+    args: [
+      ...inputFormat,
+      '-i', 'pipe:0',
+      '-f', 's16le',
+      '-ar', '16000',
+      '-ac', '1',
+      'pipe:1',
+    ],
+  });
+
+  engine.on('error', (err) => {
+    logger.error(`Failed to run ${bin}: ${err}`);
+    resampler.destroy(err);
+  });
+  engine.on('close', (code) => {
+    if (code) resampler.destroy(new Error(`${bin} exited with code ${code}`));
+  });
+  resampler.on('close', () => {
+    if (engine.exitCode === null) engine.kill();
+  });
+
+  engine.stdin.on('error', () => {}); // engine exited before reading everything
+  engine.stdin.end(text);
+  return engine.stdout.pipe(resampler);
+}
+
+async function collect(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,87 @@
+import { OpenAICompatibleClient } from '../openai-compatible';
+import { OpenRouterClient } from '../openrouter';
+import { DeepgramSpeechToTextProvider, DeepgramTextToSpeechProvider } from './deepgram';
+import { EspeakTextToSpeechProvider, PiperTextToSpeechProvider, WhisperSpeechToTextProvider } from './local';
+import { ChatModelProvider, ChatSettings, PipelineProviders, SpeechToTextProvider, TextToSpeechProvider } from './types';
+
+type Factory<T> = () => T;
+
+/**
+ * Named provider factories for each pipeline stage. The active provider for
+ * a stage comes from STT_PROVIDER, LLM_PROVIDER and TTS_PROVIDER.
+ */
+export class ProviderRegistry {
+  private stt: Map<string, Factory<SpeechToTextProvider>> = new Map();
+  private chat: Map<string, Factory<ChatModelProvider>> = new Map();
+  private tts: Map<string, Factory<TextToSpeechProvider>> = new Map();
+
+  registerSpeechToText(name: string, factory: Factory<SpeechToTextProvider>): void {
+    this.stt.set(name, factory);
+  }
+
+  registerChatModel(name: string, factory: Factory<ChatModelProvider>): void {
+    this.chat.set(name, factory);
+  }
+
+  registerTextToSpeech(name: string, factory: Factory<TextToSpeechProvider>): void {
+    this.tts.set(name, factory);
+  }
+
+  createSpeechToText(name = process.env.STT_PROVIDER || 'deepgram'): SpeechToTextProvider {
+    return this.create('STT', this.stt, name);
+  }
+
+  createChatModel(name = process.env.LLM_PROVIDER || 'openrouter'): ChatModelProvider {
+    return this.create('LLM', this.chat, name);
+  }
+
+  /**
+   * Chat model for `settings.provider` (or the configured default) with the overrides applied
+   */
+  createChatModelWith(settings: ChatSettings = {}): ChatModelProvider {
+    const chat = this.createChatModel(settings.provider);
+    chat.configure?.(settings);
+    return chat;
+  }
+
+  createTextToSpeech(name = process.env.TTS_PROVIDER || 'deepgram'): TextToSpeechProvider {
+    return this.create('TTS', this.tts, name);
+  }
+
+  /**
+   * Fill any stage not supplied explicitly from config
+   */
+  resolve(overrides: Partial<PipelineProviders> = {}): PipelineProviders {
+    return {
+      stt: overrides.stt ?? this.createSpeechToText(),
+      chat: overrides.chat ?? this.createChatModel(),
+      tts: overrides.tts ?? this.createTextToSpeech(),
+    };
+  }
+
+  list(): { stt: string[]; chat: string[]; tts: string[] } {
+    return {
+      stt: Array.from(this.stt.keys()),
+      chat: Array.from(this.chat.keys()),
+      tts: Array.from(this.tts.keys()),
+    };
+  }
+
+  private create<T>(stage: string, factories: Map<string, Factory<T>>, name: string): T {
+    const factory = factories.get(name);
+    if (!factory) {
+      throw new Error(`Unknown ${stage} provider "${name}" (available: ${Array.from(factories.keys()).join(', ')})`);
+    }
+    return factory();
+  }
+}
+
+export const providerRegistry = new ProviderRegistry();
+
+providerRegistry.registerSpeechToText('deepgram', () => new DeepgramSpeechToTextProvider());
+providerRegistry.registerSpeechToText('whisper', () => new WhisperSpeechToTextProvider());
+providerRegistry.registerChatModel('openrouter', () => new OpenRouterClient());
+providerRegistry.registerChatModel('openai', () => new OpenAICompatibleClient());
+providerRegistry.registerTextToSpeech('deepgram', () => new DeepgramTextToSpeechProvider());
+providerRegistry.registerTextToSpeech('piper', () => new PiperTextToSpeechProvider());
+providerRegistry.registerTextToSpeech('espeak', () => new EspeakTextToSpeechProvider());
@@ -0,0 +1,168 @@
+import { Readable } from 'stream';
+
+/**
+ * Contracts for the three stages of the voice pipeline. Audio on both ends
+ * is 16kHz mono linear16 PCM.
+ */
+
+/**
+ * Transcript results. `interim` may still change; `final` is settled text;
+ * `speech_final` is settled text that ends with the speaker pausing.
+ */
+export interface TranscriptEvent {
+  type: 'interim' | 'final' | 'speech_final';
+  transcript: string;
+  confidence: number;
+  /** Seconds into the stream's audio */
+  start: number;
+  duration: number;
+  receivedAt: number;
+  /** BCP-47 language: detected, or the one the stream was opened with */
+  language?: string;
+}
+
+/** No new words for a while after the last final result */
+export interface UtteranceEndEvent {
+  type: 'utterance_end';
+  /** Seconds into the stream's audio */
+  lastWordEnd: number;
+  receivedAt: number;
+}
+
+export interface SpeechStartedEvent {
+  type: 'speech_started';
+  /** Seconds into the stream's audio */
+  timestamp: number;
+  receivedAt: number;
+}
+
+export type SpeechToTextEvent = TranscriptEvent | UtteranceEndEvent | SpeechStartedEvent;
+
+export interface SpeechToTextStream {
+  connect(): Promise<void>;
+  disconnect(): void;
+  sendAudio(audio: Buffer): void;
+  /** The speaker stopped; transcribe what has been sent without waiting for more audio */
+  finalize?(): void;
+  /** Callbacks survive reconnects */
+  onEvent(callback: (event: SpeechToTextEvent) => void): void;
+  getConnectionState(): string;
+  isReady(): boolean;
+  /** Model and enabled features, named as in the provider's usage report */
+  getModel?(): string;
+  getFeatures?(): string[];
+}
+
+export interface SpeechToTextStreamOptions {
+  /** BCP-47 code, or `auto` to detect it; unset uses the provider's configured language */
+  language?: string;
+}
+
+export interface SpeechToTextProvider {
+  readonly name: string;
+  /** One stream per speaker keeps overlapping speech apart */
+  createStream(options?: SpeechToTextStreamOptions): SpeechToTextStream;
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  /** Tools the assistant asked to run in this message */
+  toolCalls?: ToolCall[];
+  /** For `tool` messages: the call this is the result of */
+  toolCallId?: string;
+}
+
+/** A tool the model may call; `parameters` is a JSON Schema object */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  /** JSON-encoded arguments, exactly as the model wrote them */
+  arguments: string;
+}
+
+export interface ChatOptions {
+  temperature?: number;
+  maxTokens?: number;
+  /** Aborts the request, e.g. when the listener interrupts the reply */
+  signal?: AbortSignal;
+  /** Tools offered to the model; providers without tool support ignore them */
+  tools?: ToolDefinition[];
+  /** Receives the tool calls in the reply, once they are complete */
+  onToolCalls?: (calls: ToolCall[]) => void;
+  /** Receives the model that answered, which may be a fallback */
+  onModel?: (model: string) => void;
+  /** Receives the token counts the backend reported for the request */
+  onUsage?: (usage: ChatUsage) => void;
+}
+
+export interface ChatUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/** How the API key is sent: `Authorization: Bearer`, an `api-key` header, or not at all */
+export type ChatAuthStyle = 'bearer' | 'api-key' | 'none';
+
+export const CHAT_AUTH_STYLES: ChatAuthStyle[] = ['bearer', 'api-key', 'none'];
+
+/**
+ * Overrides for a chat backend, e.g. per guild. Unset fields keep the provider's defaults.
+ */
+export interface ChatSettings {
+  /** Registered chat provider name */
+  provider?: string;
+  baseUrl?: string;
+  authStyle?: ChatAuthStyle;
+  /** Name of the environment variable that holds the API key */
+  apiKeyEnv?: string;
+  model?: string;
+  /** Tried in order when the model fails */
+  fallbackModels?: string[];
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface ChatModelProvider {
+  readonly name: string;
+  chat(messages: ChatMessage[], options?: ChatOptions): Promise<string>;
+  /** Yields the reply as it is generated; providers without it fall back to `chat` */
+  chatStream?(messages: ChatMessage[], options?: ChatOptions): AsyncIterable<string>;
+  getModel?(): string;
+  listModels?(): Promise<string[]>;
+  /** Replace any previous overrides with `settings` */
+  configure?(settings: ChatSettings): void;
+}
+
+/**
+ * `voice` overrides the current voice for one utterance, e.g. to answer in
+ * another language
+ */
+export interface TextToSpeechProvider {
+  readonly name: string;
+  synthesize(text: string, voice?: string): Promise<Buffer>;
+  /** Stream PCM as it is generated; providers without it fall back to `synthesize` */
+  synthesizeStream?(text: string, voice?: string): Readable;
+  /** Drop speech that is still being generated */
+  clear?(): void;
+  /** Use a different voice from the next utterance; null restores the configured default */
+  setVoice?(voice: string | null): void;
+  /** Current model or voice, for usage metering */
+  getModel?(): string;
+  /** Open and close a persistent connection, for providers that keep one */
+  connect?(): Promise<void>;
+  disconnect?(): void;
+  getConnectionState?(): string;
+}
+
+export interface PipelineProviders {
+  stt: SpeechToTextProvider;
+  chat: ChatModelProvider;
+  tts: TextToSpeechProvider;
+}
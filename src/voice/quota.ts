@@ -0,0 +1,110 @@
+import { UsageAmounts, usageDay, UsageMeter } from './usage';
+
+export type QuotaMetric = 'minutes' | 'tokens' | 'characters' | 'dollars';
+export const QUOTA_METRICS: QuotaMetric[] = ['minutes', 'tokens', 'characters', 'dollars'];
+
+export type QuotaPeriod = 'daily' | 'monthly';
+export const QUOTA_PERIODS: QuotaPeriod[] = ['daily', 'monthly'];
+
+/** A `user` limit applies to each member separately */
+export type QuotaScope = 'guild' | 'user';
+export const QUOTA_SCOPES: QuotaScope[] = ['guild', 'user'];
+
+/** At a limit: `pause` stops listening, `text` keeps listening but replies in text instead of speech */
+export type QuotaAction = 'pause' | 'text';
+export const QUOTA_ACTIONS: QuotaAction[] = ['pause', 'text'];
+
+export interface QuotaLimit {
+  scope: QuotaScope;
+  period: QuotaPeriod;
+  metric: QuotaMetric;
+  limit: number;
+}
+
+export interface QuotaSettings {
+  limits?: QuotaLimit[];
+  /** Percent of a limit at which to warn */
+  warnAt?: number;
+  action?: QuotaAction;
+}
+
+export const DEFAULT_WARN_PERCENT = 80;
+export const DEFAULT_QUOTA_ACTION: QuotaAction = 'pause';
+
+/** Where a limit stands for the guild, or for one user */
+export interface QuotaStatus extends QuotaLimit {
+  userId: string | null;
+  used: number;
+  /** Start of the period, so a warning is given once per period */
+  periodStart: string;
+}
+
+/**
+ * List prices used for the dollar estimate. The defaults are Deepgram's
+ * pay-as-you-go Nova-2 streaming and Aura rates; set the LLM rates for the
+ * model in use (0 for a local one).
+ */
+const PRICES = {
+  sttPerMinute: Number(process.env.PRICE_STT_PER_MINUTE ?? 0.0059),
+  ttsPerThousandCharacters: Number(process.env.PRICE_TTS_PER_1K_CHARACTERS ?? 0.015),
+  inputPerMillionTokens: Number(process.env.PRICE_LLM_INPUT_PER_1M_TOKENS ?? 0.5),
+  outputPerMillionTokens: Number(process.env.PRICE_LLM_OUTPUT_PER_1M_TOKENS ?? 1.5),
+};
+
+export function estimateCost(totals: Required<UsageAmounts>): number {
+  return (
+    (totals.seconds / 60) * PRICES.sttPerMinute +
+    (totals.ttsCharacters / 1000) * PRICES.ttsPerThousandCharacters +
+    (totals.tokensIn / 1e6) * PRICES.inputPerMillionTokens +
+    (totals.tokensOut / 1e6) * PRICES.outputPerMillionTokens
+  );
+}
+
+export function measure(metric: QuotaMetric, totals: Required<UsageAmounts>): number {
+  switch (metric) {
+    case 'minutes':
+      return totals.seconds / 60;
+    case 'tokens':
+      return totals.tokensIn + totals.tokensOut;
+    case 'characters':
+      return totals.ttsCharacters;
+    case 'dollars':
+      return estimateCost(totals);
+  }
+}
+
+/**
+ * First day of the period containing `now`, in UTC like the usage records
+ */
+export function periodStart(period: QuotaPeriod, now = new Date()): string {
+  const day = usageDay(now);
+  return period === 'daily' ? day : `${day.slice(0, 8)}01`;
+}
+
+export function formatAmount(metric: QuotaMetric, value: number): string {
+  if (metric === 'dollars') return `$${value.toFixed(2)}`;
+  if (metric === 'minutes') return `${Math.round(value * 10) / 10} min`;
+  return `${Math.round(value)} ${metric}`;
+}
+
+/**
+ * Usage against every limit: guild limits once, user limits for each of `userIds`
+ */
+export function checkQuotas(
+  meter: UsageMeter,
+  guildId: string,
+  settings: QuotaSettings,
+  userIds: string[],
+  now = new Date()
+): QuotaStatus[] {
+  const statuses: QuotaStatus[] = [];
+  for (const limit of settings.limits ?? []) {
+    const from = periodStart(limit.period, now);
+    const targets = limit.scope === 'guild' ? [null] : userIds;
+    for (const userId of targets) {
+      const totals = meter.getTotals({ guildId, userId: userId ?? undefined, from });
+      statuses.push({ ...limit, userId, used: measure(limit.metric, totals), periodStart: from });
+    }
+  }
+  return statuses;
+}
@@ -0,0 +1,108 @@
+import { logger } from '../utils/logger';
+import { Speaker } from './pipeline';
+
+export type ResponseMode = 'always' | 'wake' | 'ptt';
+
+export const RESPONSE_MODES: ResponseMode[] = ['always', 'wake', 'ptt'];
+
+const DEFAULT_WAKE_PHRASE = process.env.WAKE_PHRASE || 'hey redbot';
+
+export function isResponseMode(value: string): value is ResponseMode {
+  return (RESPONSE_MODES as string[]).includes(value);
+}
+
+/**
+ * Lowercase words, split on anything that is not a letter or digit
+ */
+function words(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+/**
+ * Whether a run of whole words in `text` spells out `phrase`, ignoring the
+ * punctuation and spacing between them: "Hey, Red Bot!" contains "hey redbot"
+ * but "they red bottle" does not
+ */
+function containsPhrase(text: string, phrase: string): boolean {
+  const target = words(phrase).join('');
+  const tokens = words(text);
+  for (let start = 0; start < tokens.length; start++) {
+    let joined = '';
+    for (let end = start; end < tokens.length && joined.length < target.length; end++) {
+      joined += tokens[end];
+      if (joined === target) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Decides which utterances the bot should answer in a group channel
+ */
+export class ResponsePolicy {
+  private mode: ResponseMode;
+  private wakePhrase = DEFAULT_WAKE_PHRASE;
+  private pttUserIds: Set<string> = new Set();
+  private pttRoleIds: Set<string> = new Set();
+
+  constructor(mode?: ResponseMode) {
+    const fromEnv = process.env.RESPONSE_MODE;
+    this.mode = mode ?? (fromEnv && isResponseMode(fromEnv) ? fromEnv : 'always');
+  }
+
+  getMode(): ResponseMode {
+    return this.mode;
+  }
+
+  setMode(mode: ResponseMode): void {
+    this.mode = mode;
+    logger.info(`Response mode set to ${mode}`);
+  }
+
+  getWakePhrase(): string {
+    return this.wakePhrase;
+  }
+
+  setWakePhrase(phrase: string): void {
+    if (words(phrase).length === 0) throw new Error('Wake phrase must contain letters or digits');
+    this.wakePhrase = phrase.trim();
+  }
+
+  addPushToTalkUser(userId: string): void {
+    this.pttUserIds.add(userId);
+  }
+
+  addPushToTalkRole(roleId: string): void {
+    this.pttRoleIds.add(roleId);
+  }
+
+  clearPushToTalk(): void {
+    this.pttUserIds.clear();
+    this.pttRoleIds.clear();
+  }
+
+  getPushToTalk(): { userIds: string[]; roleIds: string[] } {
+    return { userIds: Array.from(this.pttUserIds), roleIds: Array.from(this.pttRoleIds) };
+  }
+
+  shouldRespond(speaker: Speaker, text: string, roleIds: string[] = []): boolean {
+    switch (this.mode) {
+      case 'always':
+        return true;
+      case 'wake':
+        return containsPhrase(text, this.wakePhrase);
+      case 'ptt':
+        return this.pttUserIds.has(speaker.userId) || roleIds.some((id) => this.pttRoleIds.has(id));
+    }
+  }
+
+  describe(): string {
+    if (this.mode === 'wake') return `wake (phrase: "${this.wakePhrase}")`;
+    if (this.mode === 'ptt') {
+      const users = Array.from(this.pttUserIds).map((id) => `<@${id}>`);
+      const roles = Array.from(this.pttRoleIds).map((id) => `<@&${id}>`);
+      return `ptt (${[...users, ...roles].join(', ') || 'nobody designated'})`;
+    }
+    return 'always';
+  }
+}
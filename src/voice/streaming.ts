@@ -0,0 +1,83 @@
+import { Readable } from 'stream';
+
+/**
+ * Helpers for streaming replies: completions into speakable sentences, and
+ * synthesized audio into playback
+ */
+
+const SENTENCE_END = /[.!?…]+["')\]]*\s+|\n+/g;
+const MIN_SENTENCE_CHARS = 12; // avoid speaking fragments like "Hi." or "Dr." on their own
+
+/**
+ * Buffers streamed text and releases it one complete sentence at a time
+ */
+export class SentenceChunker {
+  private buffer = '';
+
+  push(text: string): string[] {
+    this.buffer += text;
+    const sentences: string[] = [];
+
+    let start = 0;
+    SENTENCE_END.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = SENTENCE_END.exec(this.buffer)) !== null) {
+      const end = match.index + match[0].length;
+      const candidate = this.buffer.slice(start, end).trim();
+      if (candidate.length >= MIN_SENTENCE_CHARS) {
+        sentences.push(candidate);
+        start = end;
+      }
+    }
+
+    this.buffer = this.buffer.slice(start);
+    return sentences;
+  }
+
+  /**
+   * Whatever is left once the stream ends
+   */
+  flush(): string | null {
+    const rest = this.buffer.trim();
+    this.buffer = '';
+    return rest || null;
+  }
+}
+
+/**
+ * Yield the `data:` payloads of a server-sent event stream until `[DONE]`
+ */
+export async function* readServerSentEvents(body: AsyncIterable<Uint8Array | string>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let pending = '';
+
+  for await (const chunk of body) {
+    pending += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+
+    let newline: number;
+    while ((newline = pending.indexOf('\n')) !== -1) {
+      const line = pending.slice(0, newline).trim();
+      pending = pending.slice(newline + 1);
+
+      // Blank lines separate events; lines starting with ':' are comments/keep-alives
+      if (!line.startsWith('data:')) continue;
+
+      const data = line.slice('data:'.length).trim();
+      if (data === '[DONE]') return;
+      yield data;
+    }
+  }
+}
+
+/**
+ * Present audio that arrives all at once as a stream, for providers that cannot stream
+ */
+export function audioStream(audio: Promise<Buffer>): Readable {
+  return Readable.from(
+    (async function* () {
+      const pcm = await audio;
+      if (pcm.length > 0) yield pcm;
+    })(),
+    { objectMode: false }
+  );
+}
@@ -0,0 +1,197 @@
+import { logger } from '../utils/logger';
+import { ToolCall, ToolDefinition } from './providers/types';
+
+/**
+ * `auto` runs when asked, `confirm` runs only once the person who asked for it
+ * has said yes, `deny` never runs
+ */
+export type ToolPolicy = 'auto' | 'confirm' | 'deny';
+
+export const TOOL_POLICIES: ToolPolicy[] = ['auto', 'confirm', 'deny'];
+
+export interface ToolContext {
+  /** Turn the call belongs to, for logs */
+  turnId?: string;
+  /** Whose turn it is; only they can confirm the call */
+  userId?: string;
+  signal?: AbortSignal;
+}
+
+export interface Tool extends ToolDefinition {
+  /** Tools that change anything outside the conversation default to `confirm` */
+  sideEffects: boolean;
+  run(args: Record<string, any>, context: ToolContext): Promise<string>;
+}
+
+const CONFIRM_WINDOW_MS = 2 * 60 * 1000; // how long a request for confirmation stays open
+const AGREEMENT = /^(yes|yeah|yep|yup|sure|ok|okay|go ahead|do it|please do|confirm(ed)?|sounds good)\b/i;
+
+/**
+ * Per-tool overrides from TOOL_POLICIES, e.g. `post_to_text_channel=auto,get_session_info=deny`
+ */
+function policiesFromEnv(): Map<string, ToolPolicy> {
+  const policies = new Map<string, ToolPolicy>();
+  for (const entry of (process.env.TOOL_POLICIES || '').split(',')) {
+    const [name, policy] = entry.split('=').map((part) => part.trim());
+    if (name && TOOL_POLICIES.includes(policy as ToolPolicy)) {
+      policies.set(name, policy as ToolPolicy);
+    }
+  }
+  return policies;
+}
+
+/**
+ * Tools the chat model may call, and the policy that decides whether a call runs
+ */
+export class ToolRegistry {
+  private tools: Map<string, Tool> = new Map();
+  private policies = policiesFromEnv();
+  /** Calls waiting for a listener to agree, keyed by name and arguments */
+  private pending: Map<string, { userId?: string; askedAt: number; approved: boolean }> = new Map();
+
+  register(tool: Tool): void {
+    this.tools.set(tool.name, tool);
+  }
+
+  unregister(name: string): void {
+    this.tools.delete(name);
+  }
+
+  get(name: string): Tool | undefined {
+    return this.tools.get(name);
+  }
+
+  getPolicy(name: string): ToolPolicy {
+    const tool = this.tools.get(name);
+    return this.policies.get(name) ?? (tool?.sideEffects ? 'confirm' : 'auto');
+  }
+
+  setPolicy(name: string, policy: ToolPolicy): void {
+    this.policies.set(name, policy);
+  }
+
+  list(): Array<{ name: string; policy: ToolPolicy }> {
+    return Array.from(this.tools.keys()).map((name) => ({ name, policy: this.getPolicy(name) }));
+  }
+
+  /**
+   * Definitions to offer the model; denied tools are left out entirely
+   */
+  definitions(): ToolDefinition[] {
+    return Array.from(this.tools.values())
+      .filter(({ name }) => this.getPolicy(name) !== 'deny')
+      .map(({ name, description, parameters }) => ({ name, description, parameters }));
+  }
+
+  /**
+   * Run a call the model made. Failures are returned as text for the model
+   * to explain rather than thrown, so one bad call does not end the reply.
+   */
+  async run(call: ToolCall, context: ToolContext = {}): Promise<string> {
+    const label = `[turn ${context.turnId ?? '-'}] Tool ${call.name}(${call.arguments})`;
+    const tool = this.tools.get(call.name);
+    if (!tool || this.getPolicy(call.name) === 'deny') {
+      logger.warn(`${label} rejected: not available`);
+      return `Error: there is no tool named ${call.name}.`;
+    }
+
+    let args: Record<string, any>;
+    try {
+      args = call.arguments.trim() ? JSON.parse(call.arguments) : {};
+    } catch {
+      logger.warn(`${label} rejected: arguments are not valid JSON`);
+      return 'Error: the arguments were not valid JSON.';
+    }
+
+    if (this.getPolicy(call.name) === 'confirm' && !this.confirmed(call, context)) {
+      logger.info(`${label} waiting for confirmation`);
+      return 'Not done yet: this needs confirmation. Tell the listeners what you are about to do and ask them to confirm. If they agree, call this tool again with the same arguments.';
+    }
+
+    const startedAt = Date.now();
+    try {
+      const result = await tool.run(args, context);
+      logger.info(`${label} -> ${result.substring(0, 200)} (${Date.now() - startedAt}ms)`);
+      return result;
+    } catch (err) {
+      logger.error(`${label} failed: ${err}`);
+      return `Error: ${err instanceof Error ? err.message : err}`;
+    }
+  }
+
+  /**
+   * What a speaker said next, as the answer to any confirmation they were
+   * asked for: a yes approves those calls, anything else drops them
+   */
+  hearReply(userId: string, text: string): void {
+    const agreed = AGREEMENT.test(text.trim().replace(/^[^\p{L}]+/u, ''));
+    for (const [key, asked] of this.pending) {
+      if (asked.userId !== userId || asked.approved) continue;
+      if (agreed) {
+        asked.approved = true;
+        logger.info(`Tool call ${key} confirmed`);
+      } else {
+        this.pending.delete(key);
+      }
+    }
+  }
+
+  /**
+   * A confirm-policy call may run once the speaker who asked for it has said
+   * yes since. The model repeating the call is not enough on its own.
+   */
+  private confirmed(call: ToolCall, context: ToolContext): boolean {
+    const now = Date.now();
+    for (const [key, { askedAt }] of this.pending) {
+      if (now - askedAt > CONFIRM_WINDOW_MS) this.pending.delete(key);
+    }
+
+    const key = `${call.name}:${normalizeArguments(call.arguments)}`;
+    const asked = this.pending.get(key);
+    if (asked?.approved && asked.userId === context.userId) {
+      this.pending.delete(key);
+      return true;
+    }
+    if (!asked) this.pending.set(key, { userId: context.userId, askedAt: now, approved: false });
+    return false;
+  }
+}
+
+/**
+ * Key order and whitespace in the arguments should not defeat a confirmation
+ */
+function normalizeArguments(json: string): string {
+  try {
+    const value = JSON.parse(json || '{}');
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return JSON.stringify(value);
+    return JSON.stringify(Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b))));
+  } catch {
+    return json;
+  }
+}
+
+/**
+ * Current date and time, optionally in another time zone
+ */
+export function createTimeTool(): Tool {
+  return {
+    name: 'get_current_time',
+    description: 'Get the current date and time, optionally in a given IANA time zone such as Europe/London.',
+    parameters: {
+      type: 'object',
+      properties: {
+        timeZone: { type: 'string', description: 'IANA time zone name; defaults to the server time zone' },
+      },
+    },
+    sideEffects: false,
+    async run(args) {
+      const timeZone = typeof args.timeZone === 'string' && args.timeZone ? args.timeZone : process.env.TZ || undefined;
+      const formatted = new Date().toLocaleString('en-US', {
+        timeZone,
+        dateStyle: 'full',
+        timeStyle: 'short',
+      });
+      return timeZone ? `${formatted} (${timeZone})` : formatted;
+    },
+  };
+}
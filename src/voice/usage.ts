@@ -0,0 +1,214 @@
+import { logger } from '../utils/logger';
+import { dataPath, readJsonFile, writeJsonFile } from '../utils/storage';
+
+/** `listen` and `speak` are Deepgram's names for STT and TTS; `chat` is the LLM */
+export type UsageEndpoint = 'listen' | 'speak' | 'chat';
+
+export interface UsageAmounts {
+  /** Audio streamed to the STT */
+  seconds?: number;
+  tokensIn?: number;
+  tokensOut?: number;
+  ttsCharacters?: number;
+  requests?: number;
+}
+
+/** Who used what */
+export interface UsageSource {
+  guildId: string;
+  userId: string;
+  endpoint: UsageEndpoint;
+  model: string;
+  features?: string[];
+}
+
+/** Totals for one source on one UTC day */
+export interface UsageRecord extends Required<UsageSource>, Required<UsageAmounts> {
+  /** YYYY-MM-DD */
+  day: string;
+}
+
+/** Days are inclusive YYYY-MM-DD strings */
+export interface UsageFilter {
+  guildId?: string;
+  userId?: string;
+  from?: string;
+  to?: string;
+}
+
+/** Column order of Deepgram's usage export */
+export const USAGE_CSV_HEADER = [
+  'day',
+  'accessor',
+  'endpoint',
+  'features',
+  'models',
+  'tags',
+  'deployment',
+  'hours',
+  'total_hours',
+  'agent_hours',
+  'tokens_in',
+  'tokens_out',
+  'tts_characters',
+  'requests',
+];
+
+const SAVE_DELAY_MS = 10000; // batch writes; audio is metered many times a second
+
+/**
+ * UTC day of a date as YYYY-MM-DD, the granularity providers bill at
+ */
+export function usageDay(date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Running totals of STT audio, chat tokens and TTS characters per guild,
+ * user and day, kept across restarts so they can be reconciled against
+ * provider invoices
+ */
+export class UsageMeter {
+  private file: string;
+  private records: Map<string, UsageRecord> = new Map();
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor(file = process.env.USAGE_FILE || dataPath('usage.json')) {
+    this.file = file;
+    for (const record of readJsonFile<UsageRecord[]>(file, [])) {
+      this.records.set(recordKey(record.day, record), record);
+    }
+  }
+
+  record(source: UsageSource, amounts: UsageAmounts, now = new Date()): void {
+    const day = usageDay(now);
+    const features = [...(source.features ?? [])].sort();
+    const key = recordKey(day, { ...source, features });
+
+    let record = this.records.get(key);
+    if (!record) {
+      record = {
+        day,
+        guildId: source.guildId,
+        userId: source.userId,
+        endpoint: source.endpoint,
+        model: source.model,
+        features,
+        seconds: 0,
+        tokensIn: 0,
+        tokensOut: 0,
+        ttsCharacters: 0,
+        requests: 0,
+      };
+      this.records.set(key, record);
+    }
+    record.seconds += amounts.seconds ?? 0;
+    record.tokensIn += amounts.tokensIn ?? 0;
+    record.tokensOut += amounts.tokensOut ?? 0;
+    record.ttsCharacters += amounts.ttsCharacters ?? 0;
+    record.requests += amounts.requests ?? 0;
+    this.scheduleSave();
+  }
+
+  /**
+   * Matching records, ordered by day, guild, user and endpoint
+   */
+  getRecords(filter: UsageFilter = {}): UsageRecord[] {
+    return Array.from(this.records.values())
+      .filter(
+        (record) =>
+          (!filter.guildId || record.guildId === filter.guildId) &&
+          (!filter.userId || record.userId === filter.userId) &&
+          (!filter.from || record.day >= filter.from) &&
+          (!filter.to || record.day <= filter.to)
+      )
+      .map((record) => ({ ...record, features: [...record.features] }))
+      .sort((a, b) => recordKey(a.day, a).localeCompare(recordKey(b.day, b)));
+  }
+
+  /**
+   * Sum of the matching records
+   */
+  getTotals(filter: UsageFilter = {}): Required<UsageAmounts> {
+    const totals = { seconds: 0, tokensIn: 0, tokensOut: 0, ttsCharacters: 0, requests: 0 };
+    for (const record of this.getRecords(filter)) {
+      totals.seconds += record.seconds;
+      totals.tokensIn += record.tokensIn;
+      totals.tokensOut += record.tokensOut;
+      totals.ttsCharacters += record.ttsCharacters;
+      totals.requests += record.requests;
+    }
+    return totals;
+  }
+
+  /**
+   * Records in Deepgram's usage export format. The accessor is the Discord
+   * user and the guild goes in the tags, so rows line up with the report
+   * once grouped by day, endpoint and model.
+   */
+  toCsv(filter: UsageFilter = {}): string {
+    const rows = this.getRecords(filter).map((record) => {
+      const hours = formatNumber(record.seconds / 3600);
+      return [
+        record.day,
+        csvCell(record.userId),
+        record.endpoint,
+        listCell(record.features),
+        listCell([record.model]),
+        listCell([`guild:${record.guildId}`]),
+        'hosted',
+        hours,
+        hours,
+        '0',
+        String(record.tokensIn),
+        String(record.tokensOut),
+        String(record.ttsCharacters),
+        String(record.requests),
+      ].join(',');
+    });
+    return [USAGE_CSV_HEADER.join(','), ...rows].join('\n') + '\n';
+  }
+
+  /**
+   * Write pending totals now, e.g. on shutdown
+   */
+  flush(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    writeJsonFile(this.file, Array.from(this.records.values()));
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.flush();
+      logger.debug(`Saved usage to ${this.file}`);
+    }, SAVE_DELAY_MS);
+    // Pending totals are flushed on shutdown; the timer alone should not keep the process alive
+    this.saveTimer.unref();
+  }
+}
+
+function recordKey(day: string, source: UsageSource): string {
+  return [day, source.guildId, source.userId, source.endpoint, source.model, (source.features ?? []).join(',')].join('|');
+}
+
+function formatNumber(value: number): string {
+  return String(Number(value.toFixed(6)));
+}
+
+function csvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * A list cell as Deepgram writes it: quoted names joined by commas, then
+ * escaped as one CSV field. Empty lists come out as `""`.
+ */
+function listCell(items: string[]): string {
+  const list = items.map((item) => `"${item}"`).join(',');
+  return `"${list.replace(/"/g, '""')}"`;
+}
@@ -0,0 +1,164 @@
+import { computeRms } from './barge-in';
+
+const FRAME_MS = 20;
+const FRAME_BYTES = FRAME_MS * 32; // 16kHz mono linear16
+
+export interface VadOptions {
+  /** Consecutive loud frames needed before speech starts */
+  startMs: number;
+  /** Quiet time after speech before it counts as stopped */
+  hangoverMs: number;
+  /** Audio from just before the onset that is sent along with it */
+  preRollMs: number;
+  /** Speech must be this many times louder than the noise floor */
+  floorRatio: number;
+  /** RMS below which nothing counts as speech, however quiet the room */
+  minThreshold: number;
+}
+
+const DEFAULT_OPTIONS: VadOptions = {
+  startMs: 60,
+  hangoverMs: 400,
+  preRollMs: 300,
+  floorRatio: 3,
+  minThreshold: 300,
+};
+
+const INITIAL_NOISE_FLOOR = 100;
+const MAX_NOISE_FLOOR = 3000;
+const FLOOR_ADAPT_RATE = 0.05; // weight of each quiet frame in the running noise estimate
+
+/**
+ * Frame-level voice activity detection for one speaker. Decides when speech
+ * starts and stops and passes on only the audio worth transcribing.
+ */
+export class VoiceActivityDetector {
+  private options: VadOptions;
+  private pending: Buffer = Buffer.alloc(0);
+  private preRoll: Buffer[] = [];
+  private noiseFloor = INITIAL_NOISE_FLOOR;
+  private speaking = false;
+  private loudMs = 0;
+  private quietMs = 0;
+  private lastSpeechAt = 0;
+  private idleTimer: NodeJS.Timeout | null = null;
+  private speechStartCallbacks: Array<() => void> = [];
+  private speechEndCallbacks: Array<(endedAt: number) => void> = [];
+
+  constructor(options: Partial<VadOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  onSpeechStart(callback: () => void): void {
+    this.speechStartCallbacks.push(callback);
+  }
+
+  /**
+   * Called with the time of the last speech frame once the hangover has passed
+   */
+  onSpeechEnd(callback: (endedAt: number) => void): void {
+    this.speechEndCallbacks.push(callback);
+  }
+
+  isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  getNoiseFloor(): number {
+    return Math.round(this.noiseFloor);
+  }
+
+  /**
+   * Feed PCM in any chunk size. Returns the audio to forward (pre-roll plus
+   * speech and hangover), or null while the speaker is silent.
+   */
+  process(pcm: Buffer): Buffer | null {
+    this.pending = this.pending.length ? Buffer.concat([this.pending, pcm]) : pcm;
+
+    const forward: Buffer[] = [];
+    let offset = 0;
+    for (; offset + FRAME_BYTES <= this.pending.length; offset += FRAME_BYTES) {
+      forward.push(...this.processFrame(this.pending.subarray(offset, offset + FRAME_BYTES)));
+    }
+    this.pending = Buffer.from(this.pending.subarray(offset));
+
+    // Discord stops sending packets when someone goes quiet, so the hangover also runs on a timer
+    if (this.speaking) this.armIdleTimer();
+
+    return forward.length ? Buffer.concat(forward) : null;
+  }
+
+  /**
+   * End any speech in progress and clear all state
+   */
+  reset(): void {
+    if (this.speaking) this.endSpeech();
+    this.clearIdleTimer();
+    this.pending = Buffer.alloc(0);
+    this.preRoll = [];
+    this.loudMs = 0;
+  }
+
+  private processFrame(frame: Buffer): Buffer[] {
+    const rms = computeRms(frame);
+    const loud = rms >= Math.max(this.options.minThreshold, this.noiseFloor * this.options.floorRatio);
+
+    if (!this.speaking) {
+      this.preRoll.push(frame);
+      if (this.preRoll.length * FRAME_MS > this.options.preRollMs) this.preRoll.shift();
+
+      if (!loud) {
+        this.loudMs = 0;
+        this.noiseFloor = Math.min(MAX_NOISE_FLOOR, this.noiseFloor + (rms - this.noiseFloor) * FLOOR_ADAPT_RATE);
+        return [];
+      }
+
+      this.loudMs += FRAME_MS;
+      if (this.loudMs < this.options.startMs) return [];
+
+      this.speaking = true;
+      this.quietMs = 0;
+      this.lastSpeechAt = Date.now();
+      for (const callback of this.speechStartCallbacks) {
+        callback();
+      }
+      return this.preRoll.splice(0);
+    }
+
+    if (loud) {
+      this.quietMs = 0;
+      this.lastSpeechAt = Date.now();
+    } else {
+      this.quietMs += FRAME_MS;
+      if (this.quietMs >= this.options.hangoverMs) {
+        this.endSpeech();
+      }
+    }
+    return [frame];
+  }
+
+  private endSpeech(): void {
+    this.speaking = false;
+    this.loudMs = 0;
+    this.quietMs = 0;
+    this.clearIdleTimer();
+    for (const callback of this.speechEndCallbacks) {
+      callback(this.lastSpeechAt);
+    }
+  }
+
+  private armIdleTimer(): void {
+    this.clearIdleTimer();
+    this.idleTimer = setTimeout(() => {
+      this.idleTimer = null;
+      if (this.speaking) this.endSpeech();
+    }, this.options.hangoverMs);
+  }
+
+  private clearIdleTimer(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+}
@@ -0,0 +1,195 @@
+import { execFile } from 'child_process';
+import { existsSync, promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { logger } from '../utils/logger';
+import { computeRms } from './barge-in';
+import { SpeechToTextEvent, SpeechToTextStream } from './providers/types';
+
+const SAMPLE_RATE = 16000;
+const PCM_BYTES_PER_MS = 32; // 16kHz mono linear16
+
+interface WhisperConfig {
+  bin: string;
+  model: string;
+  language: string;
+  speechRms: number; // RMS amplitude of 16-bit PCM counted as speech
+  endSilenceMs: number; // quiet time that ends an utterance
+  minUtteranceMs: number;
+  maxUtteranceMs: number;
+  timeoutMs: number;
+}
+
+/**
+ * Offline speech-to-text with a whisper.cpp binary. Whisper transcribes whole
+ * clips, so audio is cut into utterances on silence and each one produces a
+ * single final transcript.
+ */
+export class WhisperSTT implements SpeechToTextStream {
+  private config: WhisperConfig;
+  private isConnected = false;
+  private connectionState: 'disconnected' | 'connected' = 'disconnected';
+  private eventCallbacks: Array<(event: SpeechToTextEvent) => void> = [];
+  private utterance: Buffer[] = [];
+  private utteranceBytes = 0;
+  private speaking = false;
+  private silenceMs = 0;
+  /** Runs are serialized so transcripts come out in the order they were spoken */
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(config?: Partial<WhisperConfig>) {
+    const model = config?.model || process.env.WHISPER_MODEL;
+    if (!model) throw new Error('WHISPER_MODEL not set');
+
+    this.config = {
+      bin: config?.bin || process.env.WHISPER_BIN || 'whisper-cli',
+      model,
+      language: config?.language || process.env.WHISPER_LANGUAGE || 'en',
+      speechRms: config?.speechRms ?? 500,
+      endSilenceMs: config?.endSilenceMs ?? 700,
+      minUtteranceMs: config?.minUtteranceMs ?? 300,
+      maxUtteranceMs: config?.maxUtteranceMs ?? 30000,
+      timeoutMs: config?.timeoutMs ?? 30000,
+    };
+  }
+
+  async connect(): Promise<void> {
+    if (!existsSync(this.config.model)) {
+      logger.error(`Whisper model not found: ${this.config.model}`);
+      throw new Error(`Whisper model not found: ${this.config.model}`);
+    }
+    this.isConnected = true;
+    this.connectionState = 'connected';
+    logger.info(`Local whisper STT ready (model: ${this.config.model})`);
+  }
+
+  disconnect(): void {
+    this.isConnected = false;
+    this.connectionState = 'disconnected';
+    this.resetUtterance();
+  }
+
+  sendAudio(audio: Buffer): void {
+    if (!this.isConnected) {
+      logger.warn('Cannot send audio - local STT not connected');
+      return;
+    }
+
+    const loud = computeRms(audio) >= this.config.speechRms;
+    if (!this.speaking) {
+      if (!loud) return;
+      this.speaking = true;
+      this.emit({ type: 'speech_started', timestamp: 0, receivedAt: Date.now() });
+    }
+
+    this.utterance.push(audio);
+    this.utteranceBytes += audio.length;
+    this.silenceMs = loud ? 0 : this.silenceMs + audio.length / PCM_BYTES_PER_MS;
+
+    if (
+      this.silenceMs >= this.config.endSilenceMs ||
+      this.utteranceBytes / PCM_BYTES_PER_MS >= this.config.maxUtteranceMs
+    ) {
+      this.endUtterance();
+    }
+  }
+
+  /**
+   * Transcribe the current utterance now instead of waiting for trailing silence
+   */
+  finalize(): void {
+    if (this.speaking) this.endUtterance();
+  }
+
+  onEvent(callback: (event: SpeechToTextEvent) => void): void {
+    this.eventCallbacks.push(callback);
+  }
+
+  getConnectionState(): string {
+    return this.connectionState;
+  }
+
+  isReady(): boolean {
+    return this.isConnected;
+  }
+
+  private emit(event: SpeechToTextEvent): void {
+    for (const callback of this.eventCallbacks) {
+      callback(event);
+    }
+  }
+
+  private resetUtterance(): void {
+    this.utterance = [];
+    this.utteranceBytes = 0;
+    this.speaking = false;
+    this.silenceMs = 0;
+  }
+
+  private endUtterance(): void {
+    const pcm = Buffer.concat(this.utterance);
+    const spokenMs = pcm.length / PCM_BYTES_PER_MS - this.silenceMs;
+    this.resetUtterance();
+    if (spokenMs < this.config.minUtteranceMs) return;
+
+    this.queue = this.queue.then(async () => {
+      try {
+        const transcript = await this.transcribe(pcm);
+        if (!transcript || !this.isConnected) return;
+        // Each clip is a complete utterance, so its transcript is always an endpoint
+        this.emit({
+          type: 'speech_final',
+          transcript,
+          confidence: 1,
+          start: 0,
+          duration: pcm.length / PCM_BYTES_PER_MS / 1000,
+          receivedAt: Date.now(),
+          language: this.config.language === 'auto' ? undefined : this.config.language,
+        });
+      } catch (err) {
+        logger.error(`Local transcription failed: ${err}`);
+      }
+    });
+  }
+
+  private async transcribe(pcm: Buffer): Promise<string> {
+    const file = join(tmpdir(), `redbot-${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2)}.wav`);
+    await fs.writeFile(file, toWav(pcm));
+
+    try {
+      const stdout = await new Promise<string>((resolve, reject) => {
+        execFile(
+          this.config.bin,
+          ['-m', this.config.model, '-f', file, '-l', this.config.language, '-nt', '-np'],
+          { timeout: this.config.timeoutMs },
+          (err, out) => (err ? reject(err) : resolve(out))
+        );
+      });
+      // Drop non-speech markers such as [BLANK_AUDIO] or (music)
+      return stdout.replace(/\[[^\]]*\]|\([^)]*\)/g, ' ').replace(/\s+/g, ' ').trim();
+    } finally {
+      await fs.unlink(file).catch(() => {});
+    }
+  }
+}
+
+/**
+ * Wrap 16kHz mono linear16 PCM in a WAV header
+ */
+function toWav(pcm: Buffer): Buffer {
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + pcm.length, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16); // fmt chunk size
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(1, 22); // mono
+  header.writeUInt32LE(SAMPLE_RATE, 24);
+  header.writeUInt32LE(SAMPLE_RATE * 2, 28); // byte rate
+  header.writeUInt16LE(2, 32); // block align
+  header.writeUInt16LE(16, 34); // bits per sample
+  header.write('data', 36);
+  header.writeUInt32LE(pcm.length, 40);
+  return Buffer.concat([header, pcm]);
+}
@@ -0,0 +1,111 @@
+import { ChannelType, TextBasedChannel } from 'discord.js';
+import { CaptionRelay } from '../../src/discord/captions';
+
+/** A text channel that records what is posted and how each message is edited */
+function fakeChannel(type = ChannelType.GuildText, id = 'channel') {
+  const messages: Array<{ content: string; edits: string[] }> = [];
+  const send = jest.fn(async (content: string) => {
+    const record = { content, edits: [] as string[] };
+    messages.push(record);
+    const message: { edit: jest.Mock } = { edit: jest.fn() };
+    message.edit.mockImplementation(async (next: string) => {
+      record.edits.push(next);
+      return message;
+    });
+    return message;
+  });
+  const thread = { id: 'thread', isSendable: () => true, send };
+  const channel = {
+    id,
+    type,
+    isSendable: () => true,
+    send,
+    threads: { create: jest.fn(async () => thread) },
+  };
+  return { channel: channel as unknown as TextBasedChannel & typeof channel, messages };
+}
+
+const alice = { userId: 'alice', displayName: 'Alice' };
+const heard = (transcript: string, isFinal = false) => ({
+  speaker: alice,
+  transcript,
+  isFinal,
+  speechFinal: false,
+  confidence: 0.9,
+  receivedAt: Date.now(),
+});
+
+describe('CaptionRelay', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('open', () => {
+    it('should caption into a new thread when asked to', async () => {
+      const { channel } = fakeChannel();
+      const relay = await CaptionRelay.open(channel, true);
+
+      expect(channel.threads.create).toHaveBeenCalledTimes(1);
+      expect(relay.getChannelId()).toBe('thread');
+    });
+
+    it('should caption into the channel itself without a thread', async () => {
+      const { channel } = fakeChannel();
+      const relay = await CaptionRelay.open(channel, false);
+
+      expect(channel.threads.create).not.toHaveBeenCalled();
+      expect(relay.getChannelId()).toBe('channel');
+    });
+
+    it('should fall back to the channel where threads are not possible', async () => {
+      const { channel } = fakeChannel(ChannelType.GuildVoice, 'voice-chat');
+      const relay = await CaptionRelay.open(channel, true);
+
+      expect(channel.threads.create).not.toHaveBeenCalled();
+      expect(relay.getChannelId()).toBe('voice-chat');
+    });
+  });
+
+  it('should batch interim results into one message and edit it as speech goes on', async () => {
+    const { channel, messages } = fakeChannel();
+    const relay = await CaptionRelay.open(channel, false);
+
+    relay.handleTranscript(heard('what'));
+    relay.handleTranscript(heard('what time'));
+    await jest.advanceTimersByTimeAsync(0);
+    expect(messages.map((m) => m.content)).toEqual(['**Alice:** what time …']);
+
+    relay.handleTranscript(heard('what time is it', true));
+    relay.handleTranscript(heard('in Tokyo'));
+    await jest.advanceTimersByTimeAsync(999);
+    expect(messages[0].edits).toEqual([]);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(messages[0].edits).toEqual(['**Alice:** what time is it in Tokyo …']);
+
+    // A pause after a final result closes the caption without the live marker
+    relay.handleTranscript(heard('in Tokyo', true));
+    await jest.advanceTimersByTimeAsync(1500);
+    expect(messages).toHaveLength(1);
+    expect(messages[0].edits[messages[0].edits.length - 1]).toBe('**Alice:** what time is it in Tokyo');
+  });
+
+  it('should finalize open captions on close and post nothing after', async () => {
+    const { channel, messages } = fakeChannel();
+    const relay = await CaptionRelay.open(channel, false);
+
+    relay.handleTranscript(heard('hello'));
+    await jest.advanceTimersByTimeAsync(0);
+    relay.handleTranscript(heard('hello there'));
+
+    relay.close();
+    await jest.advanceTimersByTimeAsync(5000);
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0].edits).toEqual(['**Alice:** hello there']);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+});
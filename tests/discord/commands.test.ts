@@ -0,0 +1,40 @@
+import { buildSlashCommands, getCommandDefinition, parseTextArguments } from '../../src/discord/commands';
+
+describe('Command definitions', () => {
+  it('should build slash commands for every prefix command', () => {
+    const names = buildSlashCommands().map((cmd) => cmd.name);
+
+    expect(names).toEqual(
+      expect.arrayContaining(['join', 'stage', 'listen', 'leave', 'say', 'clear', 'debug'])
+    );
+  });
+
+  it('should offer debug targets as choices', () => {
+    const debug = buildSlashCommands().find((cmd) => cmd.name === 'debug');
+    const target = debug?.options?.[0] as any;
+
+    expect(target.choices.map((c: any) => c.value)).toEqual(['audio', 'stt', 'pipeline', 'latency']);
+  });
+});
+
+describe('parseTextArguments', () => {
+  it('should map words onto options in order', () => {
+    const args = parseTextArguments(getCommandDefinition('join')!, ' 123456789');
+    expect(args.get('channel')).toBe('123456789');
+  });
+
+  it('should strip channel and user mentions', () => {
+    expect(parseTextArguments(getCommandDefinition('join')!, '<#42>').get('channel')).toBe('42');
+    expect(parseTextArguments(getCommandDefinition('listen')!, '<@!7>').get('user')).toBe('7');
+  });
+
+  it('should give rest options the remainder of the message', () => {
+    const args = parseTextArguments(getCommandDefinition('say')!, ' hello there  world');
+    expect(args.get('text')).toBe('hello there  world');
+  });
+
+  it('should leave missing options unset', () => {
+    const args = parseTextArguments(getCommandDefinition('join')!, '');
+    expect(args.has('channel')).toBe(false);
+  });
+});
@@ -41,7 +41,7 @@ describe('DiscordClient', () => {
     it('should request speaker permission on stage', async () => {
       const mockChannelId = '123456789';
       await discordClient.joinStageChannel(mockChannelId);
-      await expect(discordClient.requestSpeakerPermission()).resolves.not.toThrow();
+      await expect(discordClient.requestSpeakerPermission('987654321')).resolves.not.toThrow();
     });
 
     it('should leave voice channel', async () => {
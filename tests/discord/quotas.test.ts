@@ -0,0 +1,83 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { GuildSettingsStore } from '../../src/discord/guild-settings';
+import { QuotaEnforcer } from '../../src/discord/quotas';
+import { VoiceSession } from '../../src/discord/sessions';
+import { UsageMeter } from '../../src/voice/usage';
+
+describe('QuotaEnforcer', () => {
+  let dir: string;
+  let settings: GuildSettingsStore;
+  let meter: UsageMeter;
+  let posted: string[];
+  let actions: Map<string | null, string | null>;
+  let enforcer: QuotaEnforcer;
+  const now = new Date('2025-09-24T12:00:00Z');
+  const listen = { guildId: 'g1', endpoint: 'listen' as const, model: 'nova-2' };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'quotas-'));
+    settings = new GuildSettingsStore(path.join(dir, 'guilds.json'));
+    meter = new UsageMeter(path.join(dir, 'usage.json'));
+    posted = [];
+    actions = new Map();
+
+    const session = {
+      guildId: 'g1',
+      textChannel: { isSendable: () => true, send: async ({ content }: { content: string }) => posted.push(content) },
+      pipeline: { getSpeakers: () => [{ userId: 'alice', displayName: 'Alice' }] },
+      voice: {
+        setQuotaAction: (userId: string | null, action: string | null) => actions.set(userId, action),
+        speak: async () => 'finished',
+      },
+    } as unknown as VoiceSession;
+    enforcer = new QuotaEnforcer(session, settings, meter);
+    settings.update('g1', (s) => {
+      s.quotas = { limits: [{ scope: 'user', period: 'daily', metric: 'minutes', limit: 10 }], warnAt: 50, action: 'text' };
+    });
+  });
+
+  afterEach(() => {
+    enforcer.stop();
+    meter.flush();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should warn once when a user passes the warning threshold', async () => {
+    meter.record({ ...listen, userId: 'alice' }, { seconds: 360 }, now);
+
+    await enforcer.check(now);
+    await enforcer.check(now);
+
+    expect(posted).toEqual(['Heads up: Alice used 60% of the daily budget (6 min of 10 min).']);
+    expect(actions.size).toBe(0);
+  });
+
+  it('should restrict a user at the limit and lift it when the limit is raised', async () => {
+    meter.record({ ...listen, userId: 'alice' }, { seconds: 660 }, now);
+
+    await enforcer.check(now);
+    expect(actions.get('alice')).toBe('text');
+    expect(enforcer.getRestrictions()).toEqual([{ userId: 'alice', action: 'text' }]);
+    expect(posted[0]).toContain('Alice reached the daily minutes budget');
+
+    settings.update('g1', (s) => {
+      s.quotas!.limits = [{ scope: 'user', period: 'daily', metric: 'minutes', limit: 60 }];
+    });
+    await enforcer.check(now);
+
+    expect(actions.get('alice')).toBeNull();
+    expect(enforcer.getRestrictions()).toEqual([]);
+    expect(posted[posted.length - 1]).toBe('Alice is back under budget.');
+  });
+
+  it('should lift a restriction when the period rolls over', async () => {
+    meter.record({ ...listen, userId: 'alice' }, { seconds: 660 }, now);
+    await enforcer.check(now);
+
+    await enforcer.check(new Date('2025-09-25T00:01:00Z'));
+
+    expect(actions.get('alice')).toBeNull();
+  });
+});
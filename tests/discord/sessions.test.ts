@@ -0,0 +1,197 @@
+import { EventEmitter } from 'events';
+import { VoiceConnectionStatus } from '@discordjs/voice';
+import { DiscordClient } from '../../src/discord/client';
+import { GuildSettingsStore } from '../../src/discord/guild-settings';
+import { SessionManager } from '../../src/discord/sessions';
+import { UserSettingsStore } from '../../src/discord/user-settings';
+import { PersonaLibrary } from '../../src/voice/persona';
+import { UsageMeter } from '../../src/voice/usage';
+import { readJsonFile, writeJsonFile } from '../../src/utils/storage';
+
+jest.mock('@discordjs/voice', () => ({
+  ...jest.requireActual('@discordjs/voice'),
+  // Every wait for the connection to recover times out
+  entersState: jest.fn(async () => {
+    throw new Error('timed out');
+  }),
+}));
+jest.mock('../../src/utils/storage', () => ({
+  dataPath: (name: string) => name,
+  readJsonFile: jest.fn(),
+  writeJsonFile: jest.fn(),
+}));
+jest.mock('../../src/discord/voice', () => ({
+  VoiceHandler: jest.fn().mockImplementation(() => ({
+    setTextChannel: jest.fn(),
+    setLanguageLookup: jest.fn(),
+    attach: jest.fn(async () => {}),
+    startListening: jest.fn(async () => {}),
+    stopListening: jest.fn(async () => {}),
+    reattach: jest.fn(),
+  })),
+}));
+jest.mock('../../src/voice/pipeline', () => ({
+  VoicePipeline: jest.fn().mockImplementation(() => ({
+    setPersona: jest.fn(),
+    setUsageMeter: jest.fn(),
+    getTools: () => ({ register: jest.fn() }),
+  })),
+}));
+jest.mock('../../src/voice/providers/registry', () => ({
+  providerRegistry: { createChatModelWith: jest.fn(() => ({ name: 'fake' })) },
+}));
+jest.mock('../../src/discord/quotas', () => ({
+  QuotaEnforcer: jest.fn().mockImplementation(() => ({ start: jest.fn(), stop: jest.fn() })),
+}));
+jest.mock('../../src/discord/tools', () => ({ createSessionTools: () => [] }));
+
+const mockRead = readJsonFile as jest.Mock;
+const mockWrite = writeJsonFile as jest.Mock;
+
+/** Stands in for a @discordjs/voice connection */
+class FakeConnection extends EventEmitter {
+  state = { status: 'ready' };
+  joinConfig: { channelId: string };
+  rejoin = jest.fn();
+
+  constructor(channelId: string) {
+    super();
+    this.joinConfig = { channelId };
+  }
+}
+
+function fakeClient(failChannels: string[] = []) {
+  const connections: FakeConnection[] = [];
+  const join = jest.fn(async (channelId: string) => {
+    if (failChannels.includes(channelId)) throw new Error('Missing access');
+    const connection = new FakeConnection(channelId);
+    connections.push(connection);
+    return connection;
+  });
+  const dc = {
+    joinVoiceChannel: join,
+    joinStageChannel: join,
+    leaveVoiceChannel: jest.fn(async () => {}),
+    requestSpeakerPermission: jest.fn(async () => 'speaking'),
+    getClient: () => ({ channels: { fetch: jest.fn(async () => null) } }),
+  } as unknown as DiscordClient;
+  return { dc, connections };
+}
+
+function createManager(dc: DiscordClient): SessionManager {
+  const settings = { get: () => ({}) } as unknown as GuildSettingsStore;
+  const personas = { get: () => undefined, getDefault: () => ({ name: 'default', systemPrompt: '' }) } as unknown as PersonaLibrary;
+  const users = { get: () => ({}) } as unknown as UserSettingsStore;
+  return new SessionManager(dc, settings, personas, {} as UsageMeter, users);
+}
+
+const saved = (guildId: string, channelId: string) => ({ guildId, channelId, isStage: false, textChannelId: null });
+
+describe('SessionManager', () => {
+  beforeEach(() => {
+    mockRead.mockReset();
+    mockWrite.mockReset();
+  });
+
+  describe('restore', () => {
+    it('should rejoin saved sessions and save the state once', async () => {
+      mockRead.mockReturnValue([saved('g1', 'c1'), saved('g2', 'c2')]);
+      const { dc } = fakeClient();
+      const sessions = createManager(dc);
+
+      await sessions.restore();
+
+      expect(sessions.getAll().map((s) => [s.guildId, s.channelId])).toEqual([['g1', 'c1'], ['g2', 'c2']]);
+      expect(mockWrite).toHaveBeenCalledTimes(1);
+      expect(mockWrite).toHaveBeenCalledWith('sessions.json', [saved('g1', 'c1'), saved('g2', 'c2')]);
+    });
+
+    it('should keep an entry that failed to rejoin', async () => {
+      mockRead.mockReturnValue([saved('g1', 'gone'), saved('g2', 'c2')]);
+      const { dc } = fakeClient(['gone']);
+      const sessions = createManager(dc);
+
+      await sessions.restore();
+
+      expect(sessions.get('g1')).toBeUndefined();
+      expect(sessions.get('g2')?.channelId).toBe('c2');
+      expect(mockWrite).toHaveBeenCalledTimes(1);
+      expect(mockWrite.mock.calls[0][1]).toEqual([saved('g2', 'c2'), saved('g1', 'gone')]);
+
+      // Still kept when the state is saved again later
+      await sessions.end('g2');
+      expect(mockWrite.mock.calls[1][1]).toEqual([saved('g1', 'gone')]);
+    });
+
+    it('should leave the state alone when there is nothing to restore', async () => {
+      mockRead.mockReturnValue([]);
+      await createManager(fakeClient().dc).restore();
+
+      expect(mockWrite).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reconnect', () => {
+    let sessions: SessionManager;
+    let dc: DiscordClient;
+    let connection: FakeConnection;
+
+    beforeEach(async () => {
+      jest.useFakeTimers();
+      const client = fakeClient();
+      dc = client.dc;
+      sessions = createManager(dc);
+      await sessions.start('g1', 'c1', { isStage: false });
+      connection = client.connections[0];
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    const drop = () => connection.emit(VoiceConnectionStatus.Signalling);
+
+    it('should rejoin once when both timeouts fire for the same drop', async () => {
+      connection.emit(VoiceConnectionStatus.Disconnected, {}, { reason: 0 });
+      drop();
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(connection.rejoin).toHaveBeenCalledTimes(1);
+
+      // The next drop is the second attempt, not the third
+      drop();
+      await jest.advanceTimersByTimeAsync(1999);
+      expect(connection.rejoin).toHaveBeenCalledTimes(1);
+      await jest.advanceTimersByTimeAsync(1);
+      expect(connection.rejoin).toHaveBeenCalledTimes(2);
+    });
+
+    it('should back off between attempts and end the session after the last one', async () => {
+      for (const delay of [1000, 2000, 4000, 8000, 16000]) {
+        const before = connection.rejoin.mock.calls.length;
+        drop();
+        await jest.advanceTimersByTimeAsync(delay - 1);
+        expect(connection.rejoin).toHaveBeenCalledTimes(before);
+        await jest.advanceTimersByTimeAsync(1);
+        expect(connection.rejoin).toHaveBeenCalledTimes(before + 1);
+      }
+
+      drop();
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(connection.rejoin).toHaveBeenCalledTimes(5);
+      expect(sessions.get('g1')).toBeUndefined();
+      expect(dc.leaveVoiceChannel).toHaveBeenCalledWith('g1');
+    });
+
+    it('should start counting again once the connection is ready', async () => {
+      drop();
+      await jest.advanceTimersByTimeAsync(1000);
+      connection.emit(VoiceConnectionStatus.Ready);
+
+      drop();
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(connection.rejoin).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { PassThrough, Readable } from 'stream';
+import { SpeechPlayer } from '../../src/discord/speech-player';
+
+describe('SpeechPlayer', () => {
+  let player: SpeechPlayer;
+
+  beforeEach(() => {
+    player = new SpeechPlayer(() => Readable.from([]));
+  });
+
+  it('should order queued speech by priority, then arrival', () => {
+    player.pause();
+    player.enqueue('say one', 'say');
+    player.enqueue('reply one', 'reply');
+    player.enqueue('say two', 'say');
+    player.enqueue('announcement', 'system');
+    player.enqueue('reply two', 'reply');
+
+    expect(player.getQueue().map((item) => item.text)).toEqual([
+      'announcement',
+      'reply one',
+      'reply two',
+      'say one',
+      'say two',
+    ]);
+  });
+
+  it('should resolve dropped items as cancelled on stop', async () => {
+    player.pause();
+    const first = player.enqueue('first', 'say');
+    const second = player.enqueue('second', 'reply');
+
+    expect(player.stop()).toBe(2);
+    await expect(first).resolves.toBe('cancelled');
+    await expect(second).resolves.toBe('cancelled');
+    expect(player.getQueue()).toEqual([]);
+  });
+
+  it('should drop only the queued replies of a cancelled turn', async () => {
+    player.pause();
+    const stale = player.enqueue('old sentence', 'reply', 't1');
+    player.enqueue('old sentence two', 'reply', 't1');
+    player.enqueue('new sentence', 'reply', 't2');
+    player.enqueue('said by hand', 'say', 't1');
+
+    expect(player.cancelTurn('t1')).toBe(2);
+    await expect(stale).resolves.toBe('cancelled');
+    expect(player.getQueue().map((item) => item.text)).toEqual(['new sentence', 'said by hand']);
+    player.stop();
+  });
+
+  it('should resolve as failed when synthesis returns no audio', async () => {
+    await expect(player.enqueue('hello', 'say')).resolves.toBe('failed');
+  });
+
+  it('should resolve as failed when synthesis throws', async () => {
+    const failing = new SpeechPlayer(() => {
+      const audio = new PassThrough();
+      process.nextTick(() => audio.destroy(new Error('TTS down')));
+      return audio;
+    });
+    await expect(failing.enqueue('hello', 'reply')).resolves.toBe('failed');
+  });
+
+  it('should stop synthesis of speech that is dropped from the queue', async () => {
+    const sources: PassThrough[] = [];
+    const streaming = new SpeechPlayer(() => {
+      const audio = new PassThrough();
+      sources.push(audio);
+      return audio;
+    });
+    streaming.pause();
+    const pending = streaming.enqueue('never played', 'say');
+
+    streaming.stop();
+    await expect(pending).resolves.toBe('cancelled');
+    expect(sources[0].destroyed).toBe(true);
+  });
+
+  it('should hold speech whose audio arrives after a pause', async () => {
+    const source = new PassThrough();
+    const streaming = new SpeechPlayer(() => source);
+    const pending = streaming.enqueue('late audio', 'reply');
+    expect(streaming.getCurrent()?.text).toBe('late audio');
+
+    streaming.pause();
+    source.write(Buffer.alloc(320));
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(streaming.getCurrent()).toBeNull();
+    expect(streaming.getQueue().map((item) => item.text)).toEqual(['late audio']);
+    streaming.stop();
+    await expect(pending).resolves.toBe('cancelled');
+  });
+
+  it('should report pause and resume transitions', () => {
+    expect(player.resume()).toBe(false);
+    expect(player.pause()).toBe(true);
+    expect(player.pause()).toBe(false);
+    expect(player.resume()).toBe(true);
+  });
+});
@@ -0,0 +1,168 @@
+import { EventEmitter } from 'events';
+import { VoiceConnection } from '@discordjs/voice';
+import { Client, Events } from 'discord.js';
+import { VoiceHandler } from '../../src/discord/voice';
+import { VoicePipeline } from '../../src/voice/pipeline';
+import {
+  ChatModelProvider,
+  SpeechToTextEvent,
+  SpeechToTextProvider,
+  SpeechToTextStream,
+  TextToSpeechProvider,
+} from '../../src/voice/providers/types';
+import { tone } from '../helpers/audio';
+
+/** Stands in for the Discord audio receiver: hands out each user's audio callback */
+jest.mock('../../src/discord/receiver', () => ({
+  VoiceReceiver: jest.fn().mockImplementation(() => {
+    const subscriptions = new Map<string, (audio: Buffer) => void>();
+    return {
+      subscriptions,
+      startReceivingUser: (userId: string, callback: (audio: Buffer) => void) => subscriptions.set(userId, callback),
+      stopReceivingUser: (userId: string) => subscriptions.delete(userId),
+      getActiveUsers: () => Array.from(subscriptions.keys()),
+      stopAll: () => subscriptions.clear(),
+      resetStreams: () => {},
+    };
+  }),
+}));
+
+class FakeSTTStream implements SpeechToTextStream {
+  sent: Buffer[] = [];
+  connected = false;
+  async connect(): Promise<void> { this.connected = true; }
+  disconnect(): void { this.connected = false; }
+  sendAudio(audio: Buffer): void { this.sent.push(audio); }
+  onEvent(_callback: (event: SpeechToTextEvent) => void): void {}
+  getConnectionState(): string { return this.connected ? 'connected' : 'disconnected'; }
+  isReady(): boolean { return this.connected; }
+}
+
+class FakeSTT implements SpeechToTextProvider {
+  readonly name = 'fake';
+  streams: FakeSTTStream[] = [];
+  createStream(): FakeSTTStream {
+    const stream = new FakeSTTStream();
+    this.streams.push(stream);
+    return stream;
+  }
+}
+
+const chat: ChatModelProvider = { name: 'fake', chat: async () => 'ok' };
+const tts: TextToSpeechProvider = { name: 'fake', synthesize: async () => Buffer.alloc(0) };
+
+interface FakeMember {
+  displayName: string;
+  user: { bot: boolean };
+}
+
+const member = (displayName: string, bot = false): FakeMember => ({ displayName, user: { bot } });
+
+/** A client whose guild g1 has voice channel c1 with the given members */
+function fakeClient(members: Record<string, FakeMember>) {
+  const client = new EventEmitter();
+  const channelMembers = new Map(Object.entries(members));
+  const channel = {
+    name: 'Lounge',
+    guild: { id: 'g1', name: 'Guild' },
+    members: channelMembers,
+    isVoiceBased: () => true,
+  };
+  const guild = {
+    channels: { cache: new Map([['c1', channel]]) },
+    members: { cache: channelMembers },
+  };
+  Object.assign(client, { guilds: { cache: new Map([['g1', guild]]) } });
+  return { client: client as unknown as Client, events: client };
+}
+
+const voiceState = (id: string, channelId: string | null, guildId = 'g1') => ({
+  id,
+  channelId,
+  guild: { id: guildId },
+  member: member(id),
+});
+
+describe('VoiceHandler', () => {
+  let stt: FakeSTT;
+  let pipeline: VoicePipeline;
+  let handler: VoiceHandler;
+  const connection = { subscribe: jest.fn(), joinConfig: { guildId: 'g1', channelId: 'c1' } } as unknown as VoiceConnection;
+
+  const receiver = () => (handler as unknown as { receiver: { subscriptions: Map<string, (audio: Buffer) => void> } }).receiver;
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  beforeEach(() => {
+    stt = new FakeSTT();
+    pipeline = new VoicePipeline({ stt, chat, tts });
+    handler = new VoiceHandler(pipeline);
+  });
+
+  afterEach(async () => {
+    await handler.stopListening();
+  });
+
+  describe('auto-listen', () => {
+    it('should listen to the people already in the channel, but not bots', async () => {
+      const { client } = fakeClient({ alice: member('Alice'), robo: member('Robo', true) });
+      await handler.attach(connection, client);
+
+      await handler.startListening();
+
+      expect(handler.getActiveUsers()).toEqual(['alice']);
+      expect(pipeline.getSpeakers().map((s) => s.displayName)).toEqual(['Alice']);
+    });
+
+    it('should start listening when someone joins and stop when they leave', async () => {
+      const { client, events } = fakeClient({ alice: member('Alice') });
+      await handler.attach(connection, client);
+      await handler.startListening();
+
+      events.emit(Events.VoiceStateUpdate, voiceState('bob', null), voiceState('bob', 'c1'));
+      expect(handler.getActiveUsers()).toEqual(['alice', 'bob']);
+
+      events.emit(Events.VoiceStateUpdate, voiceState('alice', 'c1'), voiceState('alice', 'elsewhere'));
+      expect(handler.getActiveUsers()).toEqual(['bob']);
+      expect(pipeline.getSpeakers().map((s) => s.userId)).toEqual(['bob']);
+    });
+
+    it('should ignore other guilds, and stop following the channel once it stops listening', async () => {
+      const { client, events } = fakeClient({});
+      await handler.attach(connection, client);
+      await handler.startListening();
+
+      events.emit(Events.VoiceStateUpdate, voiceState('carol', null, 'g2'), voiceState('carol', 'c1', 'g2'));
+      expect(handler.getActiveUsers()).toEqual([]);
+
+      await handler.stopListening();
+      events.emit(Events.VoiceStateUpdate, voiceState('bob', null), voiceState('bob', 'c1'));
+      expect(handler.getActiveUsers()).toEqual([]);
+    });
+  });
+
+  describe('speaker streams', () => {
+    it('should give two people talking at once a stream each', async () => {
+      const { client } = fakeClient({ alice: member('Alice'), bob: member('Bob') });
+      await handler.attach(connection, client);
+      await handler.startListening();
+      await flush();
+
+      // The first stream is the pipeline's shared one for unattributed audio
+      const [, aliceStream, bobStream] = stt.streams;
+      expect(stt.streams).toHaveLength(3);
+
+      const { subscriptions } = receiver();
+      for (let i = 0; i < 5; i++) {
+        subscriptions.get('alice')!(tone(100, 3000));
+        subscriptions.get('bob')!(tone(100, 4000));
+      }
+      await flush();
+
+      expect(aliceStream.sent.length).toBeGreaterThan(0);
+      expect(bobStream.sent.length).toBeGreaterThan(0);
+      expect(aliceStream.sent.every((chunk) => chunk.readInt16LE(0) === 3000)).toBe(true);
+      expect(bobStream.sent.every((chunk) => chunk.readInt16LE(0) === 4000)).toBe(true);
+      expect(stt.streams[0].sent).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,6 @@
+/** 16kHz mono linear16 at a constant amplitude */
+export function tone(ms: number, amplitude: number): Buffer {
+  const pcm = Buffer.alloc(ms * 32);
+  for (let i = 0; i < pcm.length; i += 2) pcm.writeInt16LE(amplitude, i);
+  return pcm;
+}
@@ -0,0 +1,61 @@
+import { BargeInDetector, computeRms } from '../../src/voice/barge-in';
+import { tone } from '../helpers/audio';
+
+describe('BargeInDetector', () => {
+  let detector: BargeInDetector;
+  let triggered: string[];
+
+  beforeEach(() => {
+    detector = new BargeInDetector('medium');
+    triggered = [];
+    detector.onBargeIn((userId) => triggered.push(userId));
+  });
+
+  it('should compute RMS of 16-bit PCM', () => {
+    expect(computeRms(Buffer.alloc(64))).toBe(0);
+    expect(computeRms(tone(10, 1000))).toBeCloseTo(1000);
+  });
+
+  it('should ignore speech while the bot is not speaking', () => {
+    detector.processAudio('user1', tone(500, 5000));
+    detector.speechStarted('user1');
+    expect(triggered).toEqual([]);
+  });
+
+  it('should trigger after sustained speech during playback', () => {
+    detector.setArmed(true);
+    detector.processAudio('user1', tone(200, 5000));
+    expect(triggered).toEqual([]);
+
+    detector.processAudio('user1', tone(200, 5000));
+    expect(triggered).toEqual(['user1']);
+    expect(detector.isArmed()).toBe(false);
+  });
+
+  it('should reset the speech run on quiet audio', () => {
+    detector.setArmed(true);
+    detector.processAudio('user1', tone(200, 5000));
+    detector.processAudio('user1', tone(20, 10));
+    detector.processAudio('user1', tone(200, 5000));
+    expect(triggered).toEqual([]);
+  });
+
+  it('should only trust SpeechStarted at medium sensitivity and above', () => {
+    detector.setSensitivity('low');
+    detector.setArmed(true);
+    detector.speechStarted('user1');
+    expect(triggered).toEqual([]);
+
+    detector.setSensitivity('high');
+    detector.speechStarted('user1');
+    expect(triggered).toEqual(['user1']);
+  });
+
+  it('should never trigger when off', () => {
+    detector.setSensitivity('off');
+    detector.setArmed(true);
+    detector.processAudio('user1', tone(2000, 10000));
+    detector.speechStarted('user1');
+    expect(triggered).toEqual([]);
+  });
+});
@@ -0,0 +1,48 @@
+import { CircuitBreaker } from '../../src/voice/circuit-breaker';
+
+describe('CircuitBreaker', () => {
+  const key = 'model-a';
+
+  it('should open after consecutive failures and reject during the cooldown', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 1000 });
+
+    breaker.recordFailure(key, 0);
+    expect(breaker.allowRequest(key, 10)).toBe(true);
+
+    breaker.recordFailure(key, 20);
+    expect(breaker.getState(key, 30)).toBe('open');
+    expect(breaker.allowRequest(key, 500)).toBe(false);
+    expect(breaker.getOpenCircuits(500)).toEqual([{ key, retryInMs: 520 }]);
+  });
+
+  it('should let one probe through after the cooldown', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1000 });
+    breaker.recordFailure(key, 0);
+
+    expect(breaker.getState(key, 1000)).toBe('half-open');
+    expect(breaker.allowRequest(key, 1000)).toBe(true);
+    expect(breaker.allowRequest(key, 1001)).toBe(false);
+  });
+
+  it('should close on success and reopen on a failed probe', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1000 });
+    breaker.recordFailure(key, 0);
+    breaker.allowRequest(key, 1000);
+    breaker.recordFailure(key, 1000);
+
+    expect(breaker.getState(key, 1500)).toBe('open');
+
+    breaker.allowRequest(key, 2000);
+    breaker.recordSuccess(key);
+    expect(breaker.getState(key, 2000)).toBe('closed');
+  });
+
+  it('should reset the failure count after a success', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 1000 });
+    breaker.recordFailure(key, 0);
+    breaker.recordSuccess(key);
+    breaker.recordFailure(key, 10);
+
+    expect(breaker.getState(key, 20)).toBe('closed');
+  });
+});
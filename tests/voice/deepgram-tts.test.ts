@@ -0,0 +1,118 @@
+import { Readable } from 'stream';
+import { DeepgramTTS } from '../../src/voice/deepgram-tts';
+
+jest.mock('ws', () => {
+  const { EventEmitter } = require('events');
+
+  class MockWebSocket extends EventEmitter {
+    static OPEN = 1;
+    static CLOSED = 3;
+    static instances: MockWebSocket[] = [];
+    readyState = 0;
+    sent: Array<Record<string, unknown>> = [];
+
+    constructor() {
+      super();
+      MockWebSocket.instances.push(this);
+      process.nextTick(() => {
+        this.readyState = MockWebSocket.OPEN;
+        this.emit('open');
+      });
+    }
+
+    send(data: string): void {
+      this.sent.push(JSON.parse(data));
+    }
+
+    ping(): void {}
+
+    close(): void {
+      this.readyState = MockWebSocket.CLOSED;
+      // Like a real close handshake, this arrives well after the call
+      setTimeout(() => this.emit('close', 1000, Buffer.from('')), 10);
+    }
+  }
+
+  return { __esModule: true, default: MockWebSocket };
+});
+
+interface MockSocket {
+  sent: Array<Record<string, unknown>>;
+  emit(event: string, ...args: unknown[]): boolean;
+}
+
+const sockets = (): MockSocket[] => (jest.requireMock('ws').default as { instances: MockSocket[] }).instances;
+const receive = (ws: MockSocket, message: object) => ws.emit('message', Buffer.from(JSON.stringify(message)), false);
+const receiveAudio = (ws: MockSocket, bytes: number) => ws.emit('message', Buffer.alloc(bytes), true);
+
+async function collect(audio: Readable): Promise<number> {
+  let bytes = 0;
+  for await (const chunk of audio) bytes += (chunk as Buffer).length;
+  return bytes;
+}
+
+describe('DeepgramTTS', () => {
+  let tts: DeepgramTTS;
+
+  beforeEach(async () => {
+    process.env.DEEPGRAM_API_KEY = 'test-key';
+    sockets().length = 0;
+    tts = new DeepgramTTS();
+    await tts.connect();
+  });
+
+  afterEach(() => {
+    tts.disconnect();
+  });
+
+  it('should stream audio for an utterance until it is flushed', async () => {
+    const ws = sockets()[0];
+    const audio = tts.speak('Hello there');
+    const bytes = collect(audio);
+
+    receiveAudio(ws, 320);
+    receiveAudio(ws, 640);
+    receive(ws, { type: 'Flushed' });
+
+    await expect(bytes).resolves.toBe(960);
+    expect(ws.sent).toEqual([{ type: 'Speak', text: 'Hello there' }, { type: 'Flush' }]);
+  });
+
+  it('should hold speech queued during a Clear until it is acknowledged', async () => {
+    const ws = sockets()[0];
+    const dropped = tts.speak('Old sentence');
+    tts.clear();
+    const next = tts.speak('New sentence');
+    const bytes = collect(next);
+
+    expect(ws.sent.map((m) => m.type)).toEqual(['Speak', 'Flush', 'Clear']);
+    await expect(collect(dropped)).resolves.toBe(0);
+
+    // Audio and Flushed still in flight for the cleared utterance
+    receiveAudio(ws, 320);
+    receive(ws, { type: 'Flushed' });
+    receive(ws, { type: 'Cleared' });
+    expect(ws.sent.slice(3)).toEqual([{ type: 'Speak', text: 'New sentence' }, { type: 'Flush' }]);
+
+    receiveAudio(ws, 640);
+    receive(ws, { type: 'Flushed' });
+    await expect(bytes).resolves.toBe(640);
+  });
+
+  it('should ignore the close of a socket it already replaced', async () => {
+    tts.disconnect();
+    await tts.connect();
+    const [, current] = sockets();
+    const audio = tts.speak('Still wanted');
+
+    // The first socket's close arrives after the second one is open
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(tts.isReady()).toBe(true);
+    expect(sockets()).toHaveLength(2);
+    expect(audio.destroyed).toBe(false);
+    receiveAudio(current, 320);
+    receive(current, { type: 'Flushed' });
+    await expect(collect(audio)).resolves.toBe(320);
+  });
+});
@@ -0,0 +1,112 @@
+import { ConversationHistory, estimateTokens, tokenBudgetFor } from '../../src/voice/history';
+
+describe('ConversationHistory', () => {
+  it('should build role-tagged messages after the system prompt', () => {
+    const history = new ConversationHistory();
+    history.add('user', 'Alice: hi', 'Alice');
+    history.add('assistant', 'Hello Alice!');
+
+    expect(history.toMessages('be nice')).toEqual([
+      { role: 'system', content: 'be nice' },
+      { role: 'user', content: 'Alice: hi' },
+      { role: 'assistant', content: 'Hello Alice!' },
+    ]);
+    expect(history.getEntries()[0].speaker).toBe('Alice');
+  });
+
+  it('should leave history under budget untouched', async () => {
+    const history = new ConversationHistory();
+    history.add('user', 'Alice: hi');
+    const summarize = jest.fn();
+
+    await history.compact(1000, summarize);
+
+    expect(summarize).not.toHaveBeenCalled();
+    expect(history.getEntries()).toHaveLength(1);
+  });
+
+  it('should fold the oldest turns into a summary once over budget', async () => {
+    const history = new ConversationHistory();
+    for (let i = 0; i < 6; i++) {
+      history.add(i % 2 ? 'assistant' : 'user', `message number ${i} `.repeat(10));
+    }
+    const summarize = jest.fn(async (_summary: string, entries: unknown[]) => `folded ${entries.length}`);
+
+    await history.compact(200, summarize);
+
+    const folded = summarize.mock.calls[0][1].length;
+    expect(folded).toBeGreaterThan(0);
+    expect(history.getEntries()).toHaveLength(6 - folded);
+    expect(history.getTokenCount()).toBeLessThanOrEqual(200);
+    expect(history.toMessages('sys')[1]).toEqual({
+      role: 'system',
+      content: `Summary of the earlier conversation: folded ${folded}`,
+    });
+  });
+
+  it('should always keep the latest exchange verbatim', async () => {
+    const history = new ConversationHistory();
+    history.add('user', 'a long question '.repeat(50));
+    history.add('assistant', 'a long answer '.repeat(50));
+
+    await history.compact(10, async () => 'summary');
+
+    expect(history.getEntries()).toHaveLength(2);
+    expect(history.getSummary()).toBe('');
+  });
+
+  it('should keep turns added while a summary is being written', async () => {
+    const history = new ConversationHistory();
+    for (let i = 0; i < 4; i++) history.add('user', 'x'.repeat(400));
+
+    const compaction = history.compact(300, async () => {
+      history.add('assistant', 'late reply');
+      return 'summary';
+    });
+    await compaction;
+
+    expect(history.getEntries().map((e) => e.content)).toContain('late reply');
+  });
+
+  it('should discard a summary that finishes after clear()', async () => {
+    const history = new ConversationHistory();
+    for (let i = 0; i < 4; i++) history.add('user', 'x'.repeat(400));
+
+    const compaction = history.compact(300, async () => 'stale');
+    history.clear();
+    await compaction;
+
+    expect(history.getSummary()).toBe('');
+    expect(history.getEntries()).toEqual([]);
+  });
+
+  it('should rewrite an interrupted response', () => {
+    const history = new ConversationHistory();
+    history.add('assistant', 'First. Second.');
+
+    expect(history.replaceLastResponse('First. Second.', 'First... [interrupted]')).toBe(true);
+    expect(history.getEntries()[0]).toMatchObject({
+      content: 'First... [interrupted]',
+      tokens: estimateTokens('First... [interrupted]'),
+    });
+  });
+});
+
+describe('tokenBudgetFor', () => {
+  const saved = process.env.HISTORY_TOKEN_BUDGET;
+  afterEach(() => {
+    if (saved === undefined) delete process.env.HISTORY_TOKEN_BUDGET;
+    else process.env.HISTORY_TOKEN_BUDGET = saved;
+  });
+
+  it('should give small local models a smaller budget', () => {
+    delete process.env.HISTORY_TOKEN_BUDGET;
+    expect(tokenBudgetFor('llama-3.1-8b-instruct')).toBeLessThan(tokenBudgetFor('anthropic/claude-3-sonnet'));
+    expect(tokenBudgetFor(undefined)).toBeGreaterThan(0);
+  });
+
+  it('should honour HISTORY_TOKEN_BUDGET', () => {
+    process.env.HISTORY_TOKEN_BUDGET = '1234';
+    expect(tokenBudgetFor('anthropic/claude-3-sonnet')).toBe(1234);
+  });
+});
@@ -0,0 +1,27 @@
+import { baseLanguage, languageInstruction, languageName, normalizeLanguage } from '../../src/voice/language';
+
+describe('language helpers', () => {
+  it('should strip the region from a language code', () => {
+    expect(baseLanguage('pt-BR')).toBe('pt');
+    expect(baseLanguage('ES')).toBe('es');
+  });
+
+  it('should canonicalize known languages and reject unknown ones', () => {
+    expect(normalizeLanguage('pt-br')).toBe('pt-BR');
+    expect(normalizeLanguage('de')).toBe('de');
+    expect(normalizeLanguage('xx')).toBeNull();
+    expect(normalizeLanguage('not a language')).toBeNull();
+  });
+
+  it('should name languages in English', () => {
+    expect(languageName('es')).toBe('Spanish');
+    expect(languageName('fr')).toBe('French');
+  });
+
+  it('should only instruct the model for languages other than English', () => {
+    expect(languageInstruction('fr')).toBe('The person speaking is using French. Reply in French.');
+    expect(languageInstruction('en-GB')).toBeNull();
+    expect(languageInstruction('auto')).toBeNull();
+    expect(languageInstruction()).toBeNull();
+  });
+});
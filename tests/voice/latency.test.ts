@@ -0,0 +1,62 @@
+import { LatencyTracker, TurnTrace } from '../../src/voice/latency';
+
+describe('TurnTrace', () => {
+  it('should compute spans between recorded marks only', () => {
+    const trace = new TurnTrace('t1');
+    trace.mark('speech_end', 1000);
+    trace.mark('transcript_final', 1200);
+    trace.mark('turn_start', 2200);
+    trace.mark('llm_first_token', 2700);
+    trace.mark('playback_start', 3100);
+
+    expect(trace.spans()).toEqual({
+      stt: 200,
+      debounce: 1000,
+      llm_first_token: 500,
+      response: 2100,
+    });
+  });
+
+  it('should keep the first time a mark is hit', () => {
+    const trace = new TurnTrace('t1');
+    trace.mark('first_sentence', 100);
+    trace.mark('first_sentence', 500);
+
+    expect(trace.getMark('first_sentence')).toBe(100);
+  });
+});
+
+describe('LatencyTracker', () => {
+  it('should hand out sequential turn IDs', () => {
+    const tracker = new LatencyTracker();
+
+    expect(tracker.startTurn().id).toBe('t1');
+    expect(tracker.startTurn().id).toBe('t2');
+  });
+
+  it('should aggregate p50 and p95 per stage over finished turns', () => {
+    const tracker = new LatencyTracker();
+    for (let ms = 100; ms <= 2000; ms += 100) {
+      const trace = tracker.startTurn();
+      trace.mark('turn_start', 0);
+      trace.mark('llm_first_token', ms);
+      tracker.finishTurn(trace);
+    }
+
+    expect(tracker.getStats()).toEqual([
+      { stage: 'llm_first_token', label: 'LLM first token', count: 20, p50: 1000, p95: 1900 },
+    ]);
+  });
+
+  it('should leave discarded turns out of the aggregates', () => {
+    const tracker = new LatencyTracker();
+    const trace = tracker.startTurn();
+    trace.mark('turn_start', 0);
+    trace.mark('llm_first_token', 300);
+    tracker.discardTurn(trace);
+    tracker.finishTurn(trace);
+
+    expect(tracker.getStats()).toEqual([]);
+    expect(tracker.getTurn(trace.id)).toBeUndefined();
+  });
+});
@@ -0,0 +1,237 @@
+import fetch from 'cross-fetch';
+import { ChatBackendConfig, OpenAICompatibleClient } from '../../src/voice/openai-compatible';
+import { CircuitBreaker } from '../../src/voice/circuit-breaker';
+
+jest.mock('cross-fetch', () => jest.fn());
+
+const mockFetch = fetch as unknown as jest.Mock;
+
+const DEFAULTS: ChatBackendConfig = {
+  baseUrl: 'http://localhost:8080/v1',
+  authStyle: 'bearer',
+  apiKeyEnv: 'TEST_LLM_API_KEY',
+  model: 'llama-3',
+  temperature: 0.7,
+  maxTokens: 500,
+  fallbackModels: [],
+  timeoutMs: 1000,
+  maxRetries: 0,
+  headers: {},
+};
+
+function jsonResponse(body: unknown) {
+  return { ok: true, status: 200, json: async () => body, text: async () => JSON.stringify(body) };
+}
+
+function errorResponse(status: number, headers: Record<string, string> = {}) {
+  return {
+    ok: false,
+    status,
+    statusText: 'Error',
+    headers: { get: (name: string) => headers[name.toLowerCase()] ?? null },
+    text: async () => 'upstream error',
+  };
+}
+
+const reply = (content: string) => jsonResponse({ choices: [{ message: { role: 'assistant', content } }] });
+
+describe('OpenAICompatibleClient', () => {
+  let client: OpenAICompatibleClient;
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    process.env.TEST_LLM_API_KEY = 'secret';
+    client = new OpenAICompatibleClient('test', DEFAULTS, new CircuitBreaker());
+  });
+
+  afterAll(() => {
+    delete process.env.TEST_LLM_API_KEY;
+  });
+
+  it('should send the configured model, limits and bearer auth', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ choices: [{ message: { role: 'assistant', content: 'hi' } }] }));
+
+    await expect(client.chat([{ role: 'user', content: 'hello' }])).resolves.toBe('hi');
+
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe('http://localhost:8080/v1/chat/completions');
+    expect(init.headers.Authorization).toBe('Bearer secret');
+    expect(JSON.parse(init.body)).toMatchObject({ model: 'llama-3', temperature: 0.7, max_tokens: 500 });
+  });
+
+  it('should apply overrides on top of the defaults and drop earlier ones', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ choices: [{ message: { role: 'assistant', content: '' } }] }));
+
+    client.configure({ model: 'qwen', temperature: 0.2, authStyle: 'api-key' });
+    client.configure({ model: 'mistral', authStyle: 'none' });
+    await client.chat([{ role: 'user', content: 'hello' }]);
+
+    const [, init] = mockFetch.mock.calls[0];
+    expect(client.getModel()).toBe('mistral');
+    expect(init.headers.Authorization).toBeUndefined();
+    expect(init.headers['api-key']).toBeUndefined();
+    expect(JSON.parse(init.body).temperature).toBe(0.7);
+  });
+
+  it('should send tools and report the tool calls in a reply', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({
+      choices: [{
+        message: {
+          role: 'assistant',
+          content: null,
+          tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_current_time', arguments: '{}' } }],
+        },
+      }],
+    }));
+    const onToolCalls = jest.fn();
+    const tools = [{ name: 'get_current_time', description: 'Time', parameters: { type: 'object', properties: {} } }];
+
+    await expect(client.chat([
+      { role: 'user', content: 'what time is it' },
+      { role: 'assistant', content: '', toolCalls: [{ id: 'call_0', name: 'get_current_time', arguments: '{}' }] },
+      { role: 'tool', toolCallId: 'call_0', content: 'noon' },
+    ], { tools, onToolCalls })).resolves.toBe('');
+
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+    expect(body.tools).toEqual([{ type: 'function', function: tools[0] }]);
+    expect(body.messages.slice(1)).toEqual([
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: [{ id: 'call_0', type: 'function', function: { name: 'get_current_time', arguments: '{}' } }],
+      },
+      { role: 'tool', tool_call_id: 'call_0', content: 'noon' },
+    ]);
+    expect(onToolCalls).toHaveBeenCalledWith([{ id: 'call_1', name: 'get_current_time', arguments: '{}' }]);
+  });
+
+  it('should assemble streamed tool calls from their fragments', async () => {
+    const events = [
+      { choices: [{ delta: { content: 'Checking. ' } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_1', function: { name: 'post', arguments: '{"mess' } }] } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: 'age":"hi"}' } }] } }] },
+    ];
+    const body = (async function* () {
+      for (const event of events) yield new TextEncoder().encode(`data: ${JSON.stringify(event)}\n\n`);
+      yield new TextEncoder().encode('data: [DONE]\n\n');
+    })();
+    mockFetch.mockResolvedValue({ ok: true, status: 200, body });
+    const onToolCalls = jest.fn();
+
+    const tokens: string[] = [];
+    for await (const token of client.chatStream([{ role: 'user', content: 'post hi' }], { onToolCalls })) {
+      tokens.push(token);
+    }
+
+    expect(tokens).toEqual(['Checking. ']);
+    expect(onToolCalls).toHaveBeenCalledWith([{ id: 'call_1', name: 'post', arguments: '{"message":"hi"}' }]);
+  });
+
+  it('should report token usage from replies and the final stream chunk', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({
+      choices: [{ message: { role: 'assistant', content: 'hi' } }],
+      usage: { prompt_tokens: 12, completion_tokens: 3 },
+    }));
+    const onUsage = jest.fn();
+    await client.chat([{ role: 'user', content: 'hello' }], { onUsage });
+    expect(onUsage).toHaveBeenCalledWith({ promptTokens: 12, completionTokens: 3 });
+
+    const events = [
+      { choices: [{ delta: { content: 'Hi' } }] },
+      { choices: [], usage: { prompt_tokens: 20, completion_tokens: 5 } },
+    ];
+    const body = (async function* () {
+      for (const event of events) yield new TextEncoder().encode(`data: ${JSON.stringify(event)}\n\n`);
+    })();
+    mockFetch.mockResolvedValueOnce({ ok: true, status: 200, body });
+    const tokens: string[] = [];
+    for await (const token of client.chatStream([{ role: 'user', content: 'hello' }], { onUsage })) tokens.push(token);
+
+    expect(tokens).toEqual(['Hi']);
+    expect(JSON.parse(mockFetch.mock.calls[1][1].body).stream_options).toEqual({ include_usage: true });
+    expect(onUsage).toHaveBeenLastCalledWith({ promptTokens: 20, completionTokens: 5 });
+  });
+
+  describe('failures', () => {
+    const modelsTried = () => mockFetch.mock.calls.map(([, init]) => JSON.parse(init.body).model);
+
+    it('should retry a 429 after the Retry-After delay', async () => {
+      client = new OpenAICompatibleClient('test', { ...DEFAULTS, maxRetries: 2 }, new CircuitBreaker());
+      mockFetch.mockResolvedValueOnce(errorResponse(429, { 'retry-after': '0' })).mockResolvedValueOnce(reply('hi'));
+
+      await expect(client.chat([{ role: 'user', content: 'hello' }])).resolves.toBe('hi');
+      expect(modelsTried()).toEqual(['llama-3', 'llama-3']);
+    });
+
+    it('should move on to a fallback model and report which one answered', async () => {
+      client = new OpenAICompatibleClient('test', { ...DEFAULTS, fallbackModels: ['qwen', 'mistral'] }, new CircuitBreaker());
+      mockFetch
+        .mockResolvedValueOnce(errorResponse(503))
+        .mockResolvedValueOnce(errorResponse(404))
+        .mockResolvedValueOnce(reply('from mistral'));
+      const onModel = jest.fn();
+
+      await expect(client.chat([{ role: 'user', content: 'hello' }], { onModel })).resolves.toBe('from mistral');
+      expect(modelsTried()).toEqual(['llama-3', 'qwen', 'mistral']);
+      expect(onModel).toHaveBeenCalledWith('mistral');
+    });
+
+    it('should not retry client errors', async () => {
+      client = new OpenAICompatibleClient('test', { ...DEFAULTS, maxRetries: 2 }, new CircuitBreaker());
+      mockFetch.mockResolvedValue(errorResponse(400));
+
+      await expect(client.chat([{ role: 'user', content: 'hello' }])).rejects.toThrow('test failed: 400');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should time out a request that never responds', async () => {
+      client = new OpenAICompatibleClient('test', { ...DEFAULTS, timeoutMs: 20 }, new CircuitBreaker());
+      mockFetch.mockImplementation((_url, init) => new Promise((_resolve, reject) => {
+        init.signal.addEventListener('abort', () => reject(new Error('aborted')));
+      }));
+
+      await expect(client.chat([{ role: 'user', content: 'hello' }])).rejects.toThrow('timed out after 20ms');
+    });
+
+    it('should abort a stream that stalls after it starts', async () => {
+      client = new OpenAICompatibleClient('test', { ...DEFAULTS, timeoutMs: 20 }, new CircuitBreaker());
+      let signal: AbortSignal | undefined;
+      const body = (async function* () {
+        yield new TextEncoder().encode(`data: ${JSON.stringify({ choices: [{ delta: { content: 'Hello' } }] })}\n\n`);
+        await new Promise(() => {});
+      })();
+      mockFetch.mockImplementation(async (_url, init) => {
+        signal = init.signal;
+        return { ok: true, status: 200, body };
+      });
+
+      const tokens: string[] = [];
+      const read = async () => {
+        for await (const token of client.chatStream([{ role: 'user', content: 'hello' }])) tokens.push(token);
+      };
+
+      await expect(read()).rejects.toThrow('no data for 20ms');
+      expect(tokens).toEqual(['Hello']);
+      expect(signal?.aborted).toBe(true);
+    });
+
+    it('should skip a model whose circuit is open', async () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 60000 });
+      client = new OpenAICompatibleClient('test', { ...DEFAULTS, fallbackModels: ['qwen'] }, breaker);
+      mockFetch.mockResolvedValueOnce(errorResponse(500)).mockResolvedValue(reply('from qwen'));
+
+      await client.chat([{ role: 'user', content: 'first' }]);
+      await client.chat([{ role: 'user', content: 'second' }]);
+
+      expect(modelsTried()).toEqual(['llama-3', 'qwen', 'qwen']);
+      expect(breaker.getState('http://localhost:8080/v1 llama-3')).toBe('open');
+    });
+  });
+
+  it('should list model ids from the models endpoint', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ data: [{ id: 'zephyr' }, { id: 'llama-3' }] }));
+
+    await expect(client.listModels()).resolves.toEqual(['llama-3', 'zephyr']);
+    expect(mockFetch.mock.calls[0][0]).toBe('http://localhost:8080/v1/models');
+  });
+});
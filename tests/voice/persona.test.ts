@@ -0,0 +1,84 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DEFAULT_PERSONA, PersonaLibrary, renderSystemPrompt, validatePersona } from '../../src/voice/persona';
+
+describe('renderSystemPrompt', () => {
+  const persona = {
+    name: 'host',
+    systemPrompt: 'You are {{persona}}, hosting {{channel}} on {{guild}} with {{ participants }} on {{date}}. {{unknown}}',
+  };
+
+  it('should fill in the prompt variables', () => {
+    const now = new Date(2026, 0, 2);
+    const prompt = renderSystemPrompt(persona, { guild: 'Cafe', channel: 'Lounge', participants: ['Alice', 'Bob'] }, now);
+
+    expect(prompt).toBe(`You are host, hosting Lounge on Cafe with Alice, Bob on ${now.toDateString()}. {{unknown}}`);
+  });
+
+  it('should use neutral wording for missing values', () => {
+    expect(renderSystemPrompt(persona)).toContain('hosting the voice channel on this server with nobody yet');
+  });
+});
+
+describe('validatePersona', () => {
+  it('should accept a complete definition', () => {
+    expect(validatePersona({
+      name: 'pirate',
+      systemPrompt: 'Arr',
+      voices: { deepgram: 'aura-orion-en' },
+      temperature: 1,
+      maxTokens: 200,
+    })).toBeNull();
+  });
+
+  it('should reject bad names, prompts and settings', () => {
+    expect(validatePersona({ name: 'Pirate Bob', systemPrompt: 'Arr' })).toMatch('name');
+    expect(validatePersona({ name: 'pirate', systemPrompt: ' ' })).toMatch('systemPrompt');
+    expect(validatePersona({ name: 'pirate', systemPrompt: 'Arr', voices: 'aura' })).toMatch('voices');
+    expect(validatePersona({ name: 'pirate', systemPrompt: 'Arr', temperature: 5 })).toMatch('temperature');
+    expect(validatePersona({ name: 'pirate', systemPrompt: 'Arr', maxTokens: 0 })).toMatch('maxTokens');
+  });
+});
+
+describe('PersonaLibrary', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'personas-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should always offer the built-in persona', () => {
+    const library = new PersonaLibrary(path.join(dir, 'missing'));
+
+    expect(library.list()).toEqual([DEFAULT_PERSONA]);
+    expect(library.getDefault()).toBe(DEFAULT_PERSONA);
+  });
+
+  it('should load valid definitions and skip broken ones', () => {
+    fs.writeFileSync(path.join(dir, 'pirate.json'), JSON.stringify({ name: 'pirate', systemPrompt: 'Arr' }));
+    fs.writeFileSync(path.join(dir, 'broken.json'), '{ not json');
+    fs.writeFileSync(path.join(dir, 'nameless.json'), JSON.stringify({ systemPrompt: 'Hi' }));
+
+    const library = new PersonaLibrary(dir);
+
+    expect(library.list().map((p) => p.name)).toEqual(['pirate', 'redbot']);
+    expect(library.get('Pirate')?.systemPrompt).toBe('Arr');
+  });
+
+  it('should let a file replace the built-in persona', () => {
+    fs.writeFileSync(path.join(dir, 'redbot.json'), JSON.stringify({ name: 'redbot', systemPrompt: 'Custom' }));
+
+    expect(new PersonaLibrary(dir).getDefault().systemPrompt).toBe('Custom');
+  });
+
+  it('should load the personas shipped with the repo', () => {
+    const library = new PersonaLibrary(path.join(__dirname, '../../personas'));
+
+    expect(library.get('narrator')).toBeDefined();
+  });
+});
@@ -1,10 +1,124 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 import { VoicePipeline } from '../../src/voice/pipeline';
+import { UsageMeter } from '../../src/voice/usage';
+import {
+  ChatMessage,
+  ChatModelProvider,
+  ChatOptions,
+  SpeechToTextEvent,
+  SpeechToTextProvider,
+  SpeechToTextStream,
+  SpeechToTextStreamOptions,
+  TextToSpeechProvider,
+} from '../../src/voice/providers/types';
+import { tone } from '../helpers/audio';
+
+class FakeSTTStream implements SpeechToTextStream {
+  sent: Buffer[] = [];
+  private connected = false;
+  private eventCallbacks: Array<(event: SpeechToTextEvent) => void> = [];
+
+  async connect(): Promise<void> { this.connected = true; }
+  disconnect(): void { this.connected = false; }
+  sendAudio(audio: Buffer): void { this.sent.push(audio); }
+  onEvent(callback: (event: SpeechToTextEvent) => void): void {
+    this.eventCallbacks.push(callback);
+  }
+  getConnectionState(): string { return this.connected ? 'connected' : 'disconnected'; }
+  isReady(): boolean { return this.connected; }
+
+  emit(event: SpeechToTextEvent): void {
+    this.eventCallbacks.forEach((cb) => cb(event));
+  }
+
+  emitTranscript(transcript: string, type: 'interim' | 'final' | 'speech_final' = 'final', language?: string): void {
+    this.emit({ type, transcript, confidence: 0.9, start: 0, duration: 1, receivedAt: Date.now(), language });
+  }
+}
+
+class FakeSTT implements SpeechToTextProvider {
+  readonly name = 'fake';
+  streams: FakeSTTStream[] = [];
+  options: Array<SpeechToTextStreamOptions | undefined> = [];
+  createStream(options?: SpeechToTextStreamOptions): FakeSTTStream {
+    const stream = new FakeSTTStream();
+    this.streams.push(stream);
+    this.options.push(options);
+    return stream;
+  }
+}
+
+class FakeChat implements ChatModelProvider {
+  readonly name = 'fake';
+  lastMessages: ChatMessage[] = [];
+  lastOptions?: ChatOptions;
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<string> {
+    this.lastMessages = messages;
+    this.lastOptions = options;
+    options?.onModel?.('fake-model');
+    options?.onUsage?.({ promptTokens: 10, completionTokens: 5 });
+    return `You said: ${messages[messages.length - 1].content}`;
+  }
+}
+
+class FakeStreamingChat implements ChatModelProvider {
+  readonly name = 'fake-stream';
+  signal?: AbortSignal;
+  constructor(private tokens: string[]) {}
+  async chat(): Promise<string> {
+    return this.tokens.join('');
+  }
+  async *chatStream(_messages: ChatMessage[], options: { signal?: AbortSignal } = {}): AsyncGenerator<string> {
+    this.signal = options.signal;
+    for (const token of this.tokens) {
+      if (options.signal?.aborted) throw new Error('aborted');
+      yield token;
+    }
+  }
+}
+
+/** Asks for one tool call, then answers */
+class ToolCallingChat implements ChatModelProvider {
+  readonly name = 'fake-tools';
+  requests: Array<{ messages: ChatMessage[]; options: ChatOptions }> = [];
+  async chat(): Promise<string> {
+    return '';
+  }
+  async *chatStream(messages: ChatMessage[], options: ChatOptions = {}): AsyncGenerator<string> {
+    this.requests.push({ messages: [...messages], options });
+    if (this.requests.length === 1) {
+      yield 'One moment. ';
+      options.onToolCalls?.([{ id: 'call_1', name: 'get_current_time', arguments: '{"timeZone":"UTC"}' }]);
+      return;
+    }
+    yield 'It is late.';
+  }
+}
+
+class FakeTTS implements TextToSpeechProvider {
+  readonly name = 'fake';
+  voice: string | null = null;
+  voices: Array<string | undefined> = [];
+  setVoice(voice: string | null): void {
+    this.voice = voice;
+  }
+  async synthesize(text: string, voice?: string): Promise<Buffer> {
+    this.voices.push(voice);
+    return Buffer.alloc(text.length * 32);
+  }
+}
 
 describe('VoicePipeline', () => {
   let pipeline: VoicePipeline;
+  let stt: FakeSTT;
+  let chat: FakeChat;
 
   beforeEach(() => {
-    pipeline = new VoicePipeline();
+    stt = new FakeSTT();
+    chat = new FakeChat();
+    pipeline = new VoicePipeline({ stt, chat, tts: new FakeTTS() });
   });
 
   describe('Audio Processing Pipeline', () => {
@@ -40,6 +154,13 @@ describe('VoicePipeline', () => {
       expect(audioBuffer.length).toBeGreaterThan(0);
     });
 
+    it('should stream synthesized speech from providers without streaming', async () => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of pipeline.streamSpeech('hello')) chunks.push(chunk);
+
+      expect(Buffer.concat(chunks).length).toBe('hello'.length * 32);
+    });
+
     it('should handle synthesis of empty text', async () => {
       const emptyText = '';
       const audioBuffer = await pipeline.synthesizeSpeech(emptyText);
@@ -48,6 +169,228 @@ describe('VoicePipeline', () => {
     });
   });
 
+  describe('Providers', () => {
+    it('should route audio to the speaker\'s own STT stream', async () => {
+      await pipeline.addSpeaker({ userId: 'alice', displayName: 'Alice' });
+      const audio = tone(100, 3000);
+
+      await pipeline.processAudio(audio, 'alice');
+
+      const aliceStream = pipeline.getSTTClient('alice') as FakeSTTStream;
+      expect(aliceStream).not.toBe(pipeline.getSTTClient());
+      expect(Buffer.concat(aliceStream.sent)).toEqual(audio);
+      await pipeline.disconnect();
+    });
+
+    it('should not send silence to STT', async () => {
+      await pipeline.addSpeaker({ userId: 'alice', displayName: 'Alice' });
+
+      await pipeline.processAudio(tone(500, 0), 'alice');
+
+      expect((pipeline.getSTTClient('alice') as FakeSTTStream).sent).toEqual([]);
+      expect(pipeline.getAudioStats().sentBytes).toBe(0);
+    });
+
+    it('should attribute transcripts to the speaker', async () => {
+      const events: Array<{ name: string; transcript: string }> = [];
+      pipeline.onTranscription((e) => events.push({ name: e.speaker.displayName, transcript: e.transcript }));
+      await pipeline.addSpeaker({ userId: 'alice', displayName: 'Alice' });
+
+      (pipeline.getSTTClient('alice') as FakeSTTStream).emitTranscript('hello');
+
+      expect(events).toEqual([{ name: 'Alice', transcript: 'hello' }]);
+    });
+
+    it('should pass endpoints and utterance ends through per speaker', async () => {
+      const transcripts: Array<[string, boolean, boolean]> = [];
+      const ended: string[] = [];
+      pipeline.onTranscription((e) => transcripts.push([e.transcript, e.isFinal, e.speechFinal]));
+      pipeline.onUtteranceEnd((speaker) => ended.push(speaker.displayName));
+      await pipeline.addSpeaker({ userId: 'alice', displayName: 'Alice' });
+
+      const stream = pipeline.getSTTClient('alice') as FakeSTTStream;
+      stream.emitTranscript('what is', 'interim');
+      stream.emitTranscript('what is the time', 'speech_final');
+      stream.emit({ type: 'utterance_end', lastWordEnd: 1.2, receivedAt: Date.now() });
+
+      expect(transcripts).toEqual([
+        ['what is', false, false],
+        ['what is the time', true, true],
+      ]);
+      expect(ended).toEqual(['Alice']);
+    });
+
+    it('should send a system prompt and the input to the chat model', async () => {
+      await pipeline.generateResponse('Alice: hi there');
+
+      expect(chat.lastMessages[0].role).toBe('system');
+      expect(chat.lastMessages[chat.lastMessages.length - 1]).toEqual({ role: 'user', content: 'Alice: hi there' });
+    });
+
+    it('should label history by role and send the input once', async () => {
+      pipeline.addToContext('Bob: anyone there?');
+      await pipeline.generateResponse('Alice: hi');
+      await pipeline.generateResponse('Alice: how are you');
+
+      expect(chat.lastMessages.slice(1)).toEqual([
+        { role: 'user', content: 'Bob: anyone there?' },
+        { role: 'user', content: 'Alice: hi' },
+        { role: 'assistant', content: 'You said: Alice: hi' },
+        { role: 'user', content: 'Alice: how are you' },
+      ]);
+    });
+
+    it('should use the persona for the prompt, voice and sampling', async () => {
+      const tts = new FakeTTS();
+      pipeline = new VoicePipeline({ stt, chat, tts });
+      pipeline.setPersona({
+        name: 'pirate',
+        systemPrompt: 'Talk like a pirate to {{participants}} in {{channel}}',
+        voices: { fake: 'gruff', deepgram: 'aura-orion-en' },
+        temperature: 1.1,
+        maxTokens: 120,
+      });
+      pipeline.setPromptVariables(() => ({ channel: 'Deck', participants: ['Alice'] }));
+
+      await pipeline.generateResponse('Alice: ahoy');
+
+      expect(chat.lastMessages[0]).toEqual({ role: 'system', content: 'Talk like a pirate to Alice in Deck' });
+      expect(chat.lastOptions).toMatchObject({ temperature: 1.1, maxTokens: 120 });
+      expect(tts.voice).toBe('gruff');
+    });
+  });
+
+  describe('Languages', () => {
+    const alice = { userId: 'alice', displayName: 'Alice' };
+
+    it('should open the speaker\'s stream in their pinned language', async () => {
+      await pipeline.addSpeaker({ ...alice, language: 'es' });
+
+      expect(stt.options[1]).toEqual({ language: 'es' });
+      expect(pipeline.getLanguage('alice')).toBe('es');
+    });
+
+    it('should ask for replies in the detected language', async () => {
+      await pipeline.addSpeaker({ ...alice, language: 'auto' });
+      stt.streams[1].emitTranscript('hola', 'final', 'es');
+
+      await pipeline.generateResponse('Alice: hola', [alice]);
+
+      expect(pipeline.getLanguage('alice')).toBe('es');
+      expect(chat.lastMessages[0].content).toContain('The person speaking is using Spanish. Reply in Spanish.');
+    });
+
+    it('should leave the prompt alone for English', async () => {
+      await pipeline.addSpeaker(alice);
+      stt.streams[1].emitTranscript('hello', 'final', 'en-US');
+
+      await pipeline.generateResponse('Alice: hello', [alice]);
+
+      expect(chat.lastMessages[0].content).not.toContain('Reply in');
+    });
+
+    it('should reopen the stream when the language is pinned', async () => {
+      await pipeline.addSpeaker(alice);
+
+      await pipeline.setSpeakerLanguage('alice', 'de');
+
+      expect(stt.streams[1].isReady()).toBe(false);
+      expect(stt.options[2]).toEqual({ language: 'de' });
+      expect(pipeline.getLanguage('alice')).toBe('de');
+    });
+
+    it('should speak with the persona\'s voice for the language', async () => {
+      const tts = new FakeTTS();
+      pipeline = new VoicePipeline({ stt, chat, tts });
+      pipeline.setPersona({ name: 'guide', systemPrompt: 'Be helpful', voices: { fake: 'default', 'fake:es': 'spanish' } });
+      await pipeline.addSpeaker({ ...alice, language: 'es-MX' });
+
+      await pipeline.synthesizeSpeech('Hola', 'alice');
+      await pipeline.synthesizeSpeech('Hello', 'bob');
+
+      expect(tts.voices).toEqual(['spanish', undefined]);
+    });
+  });
+
+  describe('Usage', () => {
+    it('should meter audio, tokens and characters against the speaker and guild', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'usage-'));
+      const meter = new UsageMeter(path.join(dir, 'usage.json'));
+      pipeline.setUsageMeter(meter, 'g1');
+      const alice = { userId: 'alice', displayName: 'Alice' };
+      await pipeline.addSpeaker(alice);
+
+      await pipeline.processAudio(tone(500, 3000), 'alice');
+      await pipeline.generateResponse('Alice: hi', [alice]);
+      await pipeline.synthesizeSpeech('Hello Alice', 'alice');
+
+      const totals = Object.fromEntries(meter.getRecords({ guildId: 'g1', userId: 'alice' }).map((r) => [r.endpoint, r]));
+      expect(totals.listen).toMatchObject({ model: 'fake', requests: 1 });
+      expect(totals.listen.seconds).toBeGreaterThan(0.4);
+      expect(totals.chat).toMatchObject({ model: 'fake-model', tokensIn: 10, tokensOut: 5, requests: 1 });
+      expect(totals.speak).toMatchObject({ ttsCharacters: 11, requests: 1 });
+
+      await pipeline.disconnect();
+      meter.flush();
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+  });
+
+  describe('Streaming', () => {
+    const collect = async (iterable: AsyncIterable<string>) => {
+      const out: string[] = [];
+      for await (const item of iterable) out.push(item);
+      return out;
+    };
+
+    it('should yield the reply one sentence at a time', async () => {
+      const streaming = new FakeStreamingChat(['Sure, I can ', 'help with that. ', 'What do you ', 'need first?']);
+      pipeline = new VoicePipeline({ stt, chat: streaming, tts: new FakeTTS() });
+
+      const sentences = await collect(pipeline.streamResponse('Alice: help'));
+      expect(sentences).toEqual(['Sure, I can help with that.', 'What do you need first?']);
+    });
+
+    it('should run requested tools and send their results back', async () => {
+      const toolChat = new ToolCallingChat();
+      pipeline = new VoicePipeline({ stt, chat: toolChat, tts: new FakeTTS() });
+
+      const sentences = await collect(pipeline.streamResponse('Alice: what time is it'));
+
+      expect(sentences).toEqual(['One moment.', 'It is late.']);
+      expect(toolChat.requests[0].options.tools?.map((t) => t.name)).toContain('get_current_time');
+      const [assistant, result] = toolChat.requests[1].messages.slice(-2);
+      expect(assistant).toMatchObject({ role: 'assistant', toolCalls: [{ id: 'call_1', name: 'get_current_time' }] });
+      expect(result).toMatchObject({ role: 'tool', toolCallId: 'call_1' });
+      expect(result.content).toMatch('(UTC)');
+      // Only the spoken reply is kept in the history
+      expect(pipeline.getHistory().getEntries().map((e) => e.content)).toEqual([
+        'Alice: what time is it',
+        'One moment. It is late.',
+      ]);
+    });
+
+    it('should fall back to a single reply for models without streaming', async () => {
+      const sentences = await collect(pipeline.streamResponse('Alice: hi'));
+      expect(sentences).toEqual(['You said: Alice: hi']);
+    });
+
+    it('should abort the model request when the reply is cancelled', async () => {
+      const streaming = new FakeStreamingChat(['First sentence is here. ', 'Second sentence is here. ', 'Third.']);
+      pipeline = new VoicePipeline({ stt, chat: streaming, tts: new FakeTTS() });
+      const controller = new AbortController();
+
+      const sentences: string[] = [];
+      for await (const sentence of pipeline.streamResponse('Alice: talk', controller.signal)) {
+        sentences.push(sentence);
+        controller.abort();
+      }
+
+      expect(sentences).toEqual(['First sentence is here.']);
+      expect(streaming.signal?.aborted).toBe(true);
+    });
+  });
+
   describe('End-to-End Pipeline', () => {
     it('should complete full STT->LLM->TTS pipeline within latency requirements', async () => {
       const startTime = Date.now();
@@ -0,0 +1,75 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { checkQuotas, estimateCost, formatAmount, measure, periodStart } from '../../src/voice/quota';
+import { UsageMeter } from '../../src/voice/usage';
+
+describe('quota helpers', () => {
+  const totals = { seconds: 600, tokensIn: 1000000, tokensOut: 200000, ttsCharacters: 2000, requests: 5 };
+
+  it('should measure each metric from usage totals', () => {
+    expect(measure('minutes', totals)).toBe(10);
+    expect(measure('tokens', totals)).toBe(1200000);
+    expect(measure('characters', totals)).toBe(2000);
+    expect(measure('dollars', totals)).toBeCloseTo(estimateCost(totals));
+  });
+
+  it('should estimate cost from the list prices', () => {
+    // 10 min STT + 2k TTS characters + 1M input and 0.2M output tokens
+    expect(estimateCost(totals)).toBeCloseTo(10 * 0.0059 + 2 * 0.015 + 0.5 + 0.2 * 1.5);
+  });
+
+  it('should start periods on the UTC day and month', () => {
+    const now = new Date('2025-09-24T23:30:00Z');
+    expect(periodStart('daily', now)).toBe('2025-09-24');
+    expect(periodStart('monthly', now)).toBe('2025-09-01');
+  });
+
+  it('should format amounts by metric', () => {
+    expect(formatAmount('dollars', 1.234)).toBe('$1.23');
+    expect(formatAmount('minutes', 12.345)).toBe('12.3 min');
+    expect(formatAmount('tokens', 99.6)).toBe('100 tokens');
+  });
+});
+
+describe('checkQuotas', () => {
+  let dir: string;
+  let meter: UsageMeter;
+  const now = new Date('2025-09-24T12:00:00Z');
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'quota-'));
+    meter = new UsageMeter(path.join(dir, 'usage.json'));
+    const listen = { guildId: 'g1', endpoint: 'listen' as const, model: 'nova-2' };
+    meter.record({ ...listen, userId: 'alice' }, { seconds: 1200 }, now);
+    meter.record({ ...listen, userId: 'bob' }, { seconds: 300 }, now);
+    meter.record({ ...listen, userId: 'alice' }, { seconds: 600 }, new Date('2025-09-02T12:00:00Z'));
+    meter.record({ ...listen, guildId: 'g2', userId: 'alice' }, { seconds: 6000 }, now);
+  });
+
+  afterEach(() => {
+    meter.flush();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should check guild limits once and user limits per user, within the period and guild', () => {
+    const statuses = checkQuotas(
+      meter,
+      'g1',
+      {
+        limits: [
+          { scope: 'guild', period: 'monthly', metric: 'minutes', limit: 60 },
+          { scope: 'user', period: 'daily', metric: 'minutes', limit: 15 },
+        ],
+      },
+      ['alice', 'bob'],
+      now
+    );
+
+    expect(statuses.map(({ scope, userId, used }) => [scope, userId, used])).toEqual([
+      ['guild', null, 35],
+      ['user', 'alice', 20],
+      ['user', 'bob', 5],
+    ]);
+  });
+});
@@ -0,0 +1,43 @@
+import { ResponsePolicy } from '../../src/voice/response-policy';
+
+describe('ResponsePolicy', () => {
+  const alice = { userId: 'alice', displayName: 'Alice' };
+  const bob = { userId: 'bob', displayName: 'Bob' };
+
+  it('should respond to everything in always mode', () => {
+    const policy = new ResponsePolicy('always');
+    expect(policy.shouldRespond(alice, 'what time is it')).toBe(true);
+  });
+
+  it('should require the wake phrase in wake mode', () => {
+    const policy = new ResponsePolicy('wake');
+    policy.setWakePhrase('hey redbot');
+
+    expect(policy.shouldRespond(alice, 'did you see the game?')).toBe(false);
+    expect(policy.shouldRespond(alice, 'Hey, Red Bot! What time is it?')).toBe(true);
+  });
+
+  it('should only match the wake phrase on word boundaries', () => {
+    const policy = new ResponsePolicy('wake');
+    policy.setWakePhrase('hey redbot');
+
+    expect(policy.shouldRespond(alice, 'They red bottle was on the table')).toBe(false);
+    expect(policy.shouldRespond(alice, 'okay hey redbots')).toBe(false);
+    expect(policy.shouldRespond(alice, 'so, hey redbot')).toBe(true);
+  });
+
+  it('should reject wake phrases without letters or digits', () => {
+    const policy = new ResponsePolicy('wake');
+    expect(() => policy.setWakePhrase('?!')).toThrow();
+  });
+
+  it('should only respond to designated users and roles in ptt mode', () => {
+    const policy = new ResponsePolicy('ptt');
+    policy.addPushToTalkUser('alice');
+    policy.addPushToTalkRole('hosts');
+
+    expect(policy.shouldRespond(alice, 'hello')).toBe(true);
+    expect(policy.shouldRespond(bob, 'hello')).toBe(false);
+    expect(policy.shouldRespond(bob, 'hello', ['hosts'])).toBe(true);
+  });
+});
@@ -0,0 +1,44 @@
+import { readServerSentEvents, SentenceChunker } from '../../src/voice/streaming';
+
+async function* chunks(...parts: string[]): AsyncGenerator<Uint8Array> {
+  for (const part of parts) yield Buffer.from(part);
+}
+
+describe('SentenceChunker', () => {
+  it('should release complete sentences as text arrives', () => {
+    const chunker = new SentenceChunker();
+
+    expect(chunker.push('Hello there, how ')).toEqual([]);
+    expect(chunker.push('are you today? I am')).toEqual(['Hello there, how are you today?']);
+    expect(chunker.push(' doing well.')).toEqual([]);
+    expect(chunker.flush()).toBe('I am doing well.');
+  });
+
+  it('should keep short fragments with the following sentence', () => {
+    const chunker = new SentenceChunker();
+
+    expect(chunker.push('Hi. Nice to meet you all. ')).toEqual(['Hi. Nice to meet you all.']);
+  });
+
+  it('should split on line breaks', () => {
+    const chunker = new SentenceChunker();
+
+    expect(chunker.push('First item on the list\nSecond item on the list\n')).toEqual([
+      'First item on the list',
+      'Second item on the list',
+    ]);
+    expect(chunker.flush()).toBeNull();
+  });
+});
+
+describe('readServerSentEvents', () => {
+  it('should yield data payloads split across chunks and stop at [DONE]', async () => {
+    const events: string[] = [];
+    const body = chunks(': keep-alive\n\n', 'data: {"a"', ':1}\n\ndata: {"b":2}\n\n', 'data: [DONE]\n\ndata: ignored\n\n');
+    for await (const data of readServerSentEvents(body)) {
+      events.push(data);
+    }
+
+    expect(events).toEqual(['{"a":1}', '{"b":2}']);
+  });
+});
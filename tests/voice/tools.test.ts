@@ -0,0 +1,117 @@
+import { createTimeTool, Tool, ToolRegistry } from '../../src/voice/tools';
+
+function fakeTool(name: string, sideEffects: boolean, run = jest.fn(async () => 'done')): Tool & { run: jest.Mock } {
+  return {
+    name,
+    description: `${name} tool`,
+    parameters: { type: 'object', properties: { text: { type: 'string' } } },
+    sideEffects,
+    run,
+  };
+}
+
+describe('ToolRegistry', () => {
+  it('should run side-effect-free tools straight away', async () => {
+    const registry = new ToolRegistry();
+    const tool = fakeTool('lookup', false);
+    registry.register(tool);
+
+    await expect(registry.run({ id: 'c1', name: 'lookup', arguments: '{"text":"x"}' }, { turnId: 't1' })).resolves.toBe('done');
+    expect(tool.run).toHaveBeenCalledWith({ text: 'x' }, { turnId: 't1' });
+  });
+
+  it('should only run a side effect once the speaker has said yes', async () => {
+    const registry = new ToolRegistry();
+    const tool = fakeTool('post', true);
+    registry.register(tool);
+    const call = { id: 'c1', name: 'post', arguments: '{"text":"hi"}' };
+
+    await expect(registry.run(call, { turnId: 't1', userId: 'alice' })).resolves.toMatch('needs confirmation');
+    registry.hearReply('alice', 'Yes, go ahead.');
+    await expect(registry.run({ ...call, arguments: '{ "text": "hi" }' }, { turnId: 't2', userId: 'alice' })).resolves.toBe(
+      'done'
+    );
+    expect(tool.run).toHaveBeenCalledTimes(1);
+
+    // Each confirmation is used up by the call it approved
+    await expect(registry.run(call, { turnId: 't3', userId: 'alice' })).resolves.toMatch('needs confirmation');
+  });
+
+  it('should not run a repeated call nobody agreed to', async () => {
+    const registry = new ToolRegistry();
+    const tool = fakeTool('post', true);
+    registry.register(tool);
+    const call = { id: 'c1', name: 'post', arguments: '{"text":"hi"}' };
+
+    await registry.run(call, { turnId: 't1', userId: 'alice' });
+    await expect(registry.run(call, { turnId: 't2', userId: 'alice' })).resolves.toMatch('needs confirmation');
+
+    registry.hearReply('bob', 'yes');
+    await expect(registry.run(call, { turnId: 't3', userId: 'alice' })).resolves.toMatch('needs confirmation');
+
+    registry.hearReply('alice', 'no, call it again later');
+    registry.hearReply('alice', 'yes');
+    await expect(registry.run(call, { turnId: 't4', userId: 'alice' })).resolves.toMatch('needs confirmation');
+    expect(tool.run).not.toHaveBeenCalled();
+  });
+
+  it('should not confirm a call with different arguments', async () => {
+    const registry = new ToolRegistry();
+    const tool = fakeTool('post', true);
+    registry.register(tool);
+
+    await registry.run({ id: 'c1', name: 'post', arguments: '{"text":"hi"}' }, { turnId: 't1', userId: 'alice' });
+    registry.hearReply('alice', 'yes');
+    await expect(
+      registry.run({ id: 'c2', name: 'post', arguments: '{"text":"bye"}' }, { turnId: 't2', userId: 'alice' })
+    ).resolves.toMatch('needs confirmation');
+    expect(tool.run).not.toHaveBeenCalled();
+  });
+
+  it('should hide and refuse denied tools', async () => {
+    const registry = new ToolRegistry();
+    const tool = fakeTool('lookup', false);
+    registry.register(tool);
+    registry.setPolicy('lookup', 'deny');
+
+    expect(registry.definitions()).toEqual([]);
+    await expect(registry.run({ id: 'c1', name: 'lookup', arguments: '{}' })).resolves.toMatch('no tool named lookup');
+    expect(tool.run).not.toHaveBeenCalled();
+  });
+
+  it('should report bad arguments and tool failures to the model', async () => {
+    const registry = new ToolRegistry();
+    registry.register(fakeTool('broken', false, jest.fn(async () => {
+      throw new Error('backend down');
+    })));
+
+    await expect(registry.run({ id: 'c1', name: 'broken', arguments: '{oops' })).resolves.toMatch('not valid JSON');
+    await expect(registry.run({ id: 'c2', name: 'broken', arguments: '' })).resolves.toBe('Error: backend down');
+  });
+
+  it('should read policy overrides from TOOL_POLICIES', () => {
+    process.env.TOOL_POLICIES = 'post=auto, lookup=deny, other=bogus';
+    try {
+      const registry = new ToolRegistry();
+      registry.register(fakeTool('post', true));
+      registry.register(fakeTool('lookup', false));
+      registry.register(fakeTool('other', true));
+
+      expect(registry.list()).toEqual([
+        { name: 'post', policy: 'auto' },
+        { name: 'lookup', policy: 'deny' },
+        { name: 'other', policy: 'confirm' },
+      ]);
+    } finally {
+      delete process.env.TOOL_POLICIES;
+    }
+  });
+});
+
+describe('createTimeTool', () => {
+  it('should tell the time in a requested zone', async () => {
+    const result = await createTimeTool().run({ timeZone: 'UTC' }, {});
+
+    expect(result).toMatch(/\d{4}.*\(UTC\)$/);
+  });
+});
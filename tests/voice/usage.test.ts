@@ -0,0 +1,72 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { USAGE_CSV_HEADER, UsageMeter } from '../../src/voice/usage';
+
+describe('UsageMeter', () => {
+  let dir: string;
+  let file: string;
+  const day = new Date('2025-09-24T12:00:00Z');
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'usage-'));
+    file = path.join(dir, 'usage.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should add up usage per guild, user, day, endpoint and model', () => {
+    const meter = new UsageMeter(file);
+    const listen = { guildId: 'g1', userId: 'u1', endpoint: 'listen' as const, model: 'nova-2', features: ['punctuate', 'endpointing'] };
+
+    meter.record(listen, { seconds: 30, requests: 1 }, day);
+    meter.record({ ...listen, features: ['endpointing', 'punctuate'] }, { seconds: 15 }, day);
+    meter.record(listen, { seconds: 5 }, new Date('2025-09-25T00:00:01Z'));
+    meter.record({ ...listen, userId: 'u2' }, { seconds: 1 }, day);
+    meter.record({ guildId: 'g1', userId: 'u1', endpoint: 'chat', model: 'llama-3' }, { tokensIn: 100, tokensOut: 20, requests: 1 }, day);
+
+    const records = meter.getRecords({ userId: 'u1', to: '2025-09-24' });
+    expect(records).toHaveLength(2);
+    expect(records.find((r) => r.endpoint === 'listen')).toMatchObject({
+      day: '2025-09-24',
+      features: ['endpointing', 'punctuate'],
+      seconds: 45,
+      requests: 1,
+    });
+    expect(records.find((r) => r.endpoint === 'chat')).toMatchObject({ tokensIn: 100, tokensOut: 20, requests: 1 });
+    meter.flush();
+  });
+
+  it('should keep totals across restarts', () => {
+    const meter = new UsageMeter(file);
+    meter.record({ guildId: 'g1', userId: 'u1', endpoint: 'speak', model: 'aura-asteria-en' }, { ttsCharacters: 42, requests: 1 }, day);
+    meter.flush();
+
+    const reloaded = new UsageMeter(file);
+    reloaded.record({ guildId: 'g1', userId: 'u1', endpoint: 'speak', model: 'aura-asteria-en' }, { ttsCharacters: 8, requests: 1 }, day);
+
+    expect(reloaded.getRecords()).toEqual([expect.objectContaining({ ttsCharacters: 50, requests: 2 })]);
+    reloaded.flush();
+  });
+
+  it('should export in the Deepgram usage report format', () => {
+    const meter = new UsageMeter(file);
+    meter.record(
+      { guildId: 'g1', userId: 'u1', endpoint: 'listen', model: 'nova-2', features: ['punctuate', 'interim_results', 'endpointing'] },
+      { seconds: 90, requests: 7 },
+      day
+    );
+    meter.record({ guildId: 'g1', userId: 'u1', endpoint: 'chat', model: 'llama-3' }, { tokensIn: 100, tokensOut: 20, requests: 2 }, day);
+
+    const [header, ...rows] = meter.toCsv().trim().split('\n');
+    expect(header).toBe(USAGE_CSV_HEADER.join(','));
+    expect(header).toBe(fs.readFileSync(path.join(__dirname, '..', '4681b6a4-51f6-4e23-818d-634665ca2bdb.csv'), 'utf8').split('\n')[0]);
+    expect(rows).toEqual([
+      '2025-09-24,u1,chat,"","""llama-3""","""guild:g1""",hosted,0,0,0,100,20,0,2',
+      '2025-09-24,u1,listen,"""endpointing"",""interim_results"",""punctuate""","""nova-2""","""guild:g1""",hosted,0.025,0.025,0,0,0,0,7',
+    ]);
+    meter.flush();
+  });
+});
@@ -0,0 +1,70 @@
+import { VoiceActivityDetector } from '../../src/voice/vad';
+import { tone } from '../helpers/audio';
+
+describe('VoiceActivityDetector', () => {
+  let vad: VoiceActivityDetector;
+  let starts: number;
+  let ends: number;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    vad = new VoiceActivityDetector({ startMs: 60, hangoverMs: 200, preRollMs: 100 });
+    starts = 0;
+    ends = 0;
+    vad.onSpeechStart(() => starts++);
+    vad.onSpeechEnd(() => ends++);
+  });
+
+  afterEach(() => {
+    vad.reset();
+    jest.useRealTimers();
+  });
+
+  it('should forward nothing while the speaker is silent', () => {
+    expect(vad.process(tone(500, 50))).toBeNull();
+    expect(starts).toBe(0);
+  });
+
+  it('should start speech after the onset time and include the pre-roll', () => {
+    vad.process(tone(200, 50));
+    const forwarded = vad.process(tone(60, 3000));
+
+    expect(starts).toBe(1);
+    // 100ms pre-roll window, which by now holds 40ms of quiet and the 60ms onset
+    expect(forwarded?.length).toBe(100 * 32);
+  });
+
+  it('should ignore loud blips shorter than the onset time', () => {
+    expect(vad.process(tone(40, 3000))).toBeNull();
+    expect(vad.process(tone(100, 0))).toBeNull();
+    expect(starts).toBe(0);
+  });
+
+  it('should keep forwarding through the hangover and then stop', () => {
+    vad.process(tone(100, 3000));
+    expect(vad.process(tone(100, 0))?.length).toBe(100 * 32);
+    expect(vad.isSpeaking()).toBe(true);
+
+    vad.process(tone(100, 0));
+    expect(vad.isSpeaking()).toBe(false);
+    expect(ends).toBe(1);
+    expect(vad.process(tone(100, 0))).toBeNull();
+  });
+
+  it('should end speech on a timer when audio stops arriving', () => {
+    vad.process(tone(100, 3000));
+    jest.advanceTimersByTime(250);
+
+    expect(ends).toBe(1);
+    expect(vad.isSpeaking()).toBe(false);
+  });
+
+  it('should raise the threshold in a noisy room', () => {
+    for (let i = 0; i < 100; i++) vad.process(tone(20, 250));
+
+    expect(vad.getNoiseFloor()).toBeGreaterThan(200);
+    // Loud enough to count as speech in a quiet room, but not over this much noise
+    expect(vad.process(tone(100, 500))).toBeNull();
+    expect(starts).toBe(0);
+  });
+});
@@ -0,0 +1,53 @@
+import { execFile } from 'child_process';
+import { WhisperSTT } from '../../src/voice/whisper-stt';
+import { tone } from '../helpers/audio';
+
+jest.mock('child_process', () => ({
+  execFile: jest.fn((_bin, _args, _options, callback) => callback(null, ' [BLANK_AUDIO] hello there\n')),
+}));
+
+describe('WhisperSTT', () => {
+  let stt: WhisperSTT;
+
+  beforeEach(async () => {
+    (execFile as unknown as jest.Mock).mockClear();
+    stt = new WhisperSTT({ model: __filename, endSilenceMs: 200, minUtteranceMs: 100 });
+    await stt.connect();
+  });
+
+  const flush = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+  it('should transcribe an utterance once the speaker goes quiet', async () => {
+    const started = jest.fn();
+    const transcripts: Array<[string, string]> = [];
+    stt.onEvent((event) => {
+      if (event.type === 'speech_started') started();
+      else if (event.type !== 'utterance_end') transcripts.push([event.transcript, event.type]);
+    });
+
+    stt.sendAudio(tone(100, 0));
+    stt.sendAudio(tone(300, 3000));
+    expect(started).toHaveBeenCalledTimes(1);
+
+    stt.sendAudio(tone(100, 0));
+    await flush();
+    expect(transcripts).toEqual([]);
+
+    stt.sendAudio(tone(100, 0));
+    await flush();
+    expect(transcripts).toEqual([['hello there', 'speech_final']]);
+  });
+
+  it('should ignore blips shorter than the minimum utterance', async () => {
+    stt.sendAudio(tone(40, 3000));
+    stt.sendAudio(tone(200, 0));
+    await flush();
+
+    expect(execFile).not.toHaveBeenCalled();
+  });
+
+  it('should fail to connect without a model file', async () => {
+    const missing = new WhisperSTT({ model: '/nonexistent/model.bin' });
+    await expect(missing.connect()).rejects.toThrow('Whisper model not found');
+  });
+});